@@ -0,0 +1,3875 @@
+import express from 'express';
+import axios from 'axios';
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import Ajv, { ValidateFunction } from 'ajv';
+import { logger } from './logger';
+import { Provider, ProviderMessage, parseTelegramUpdate, parseWhatsAppPayload, parseEvolutionPayload } from './providers';
+import {
+    createStorage,
+    generateQueueId,
+    historyItemId,
+    historyItemQueueId,
+    Storage,
+    WebhookMessage,
+    QueueInfo,
+    HistoryType,
+    HistoryItem,
+    BatchReply,
+    HistoryFilter,
+    DeadLetterEntry,
+    EventReader,
+    QueueStatus,
+    StatusOptions,
+    StatusInfo,
+    AuditEntry,
+    AppendResult,
+    OverflowPolicy
+} from './storage';
+import {
+    register,
+    messagesReceived,
+    batchesFlushed,
+    deliveries as deliveryCounter,
+    deliveryDuration,
+    deliveryRetries,
+    deadLetters,
+    queueDepth,
+    activeQueues,
+    storageErrors,
+    deliveriesThrottled,
+    rateLimited,
+    queueOverflows,
+    historyRemoved
+} from './metrics';
+
+dotenv.config();
+
+// Só monta o app; escutar a porta, os sinais e o encerramento do processo ficam em server.ts
+export const app = express();
+const REDIS_TTL = parseInt(process.env.REDIS_TTL || '86400');
+const AGGREGATION_WINDOW = parseInt(process.env.AGGREGATION_WINDOW || '60000'); // 60 segundos de janela para agregação
+const AGGREGATION_MAX_WAIT = parseInt(process.env.AGGREGATION_MAX_WAIT || '300000');
+const AGGREGATION_MAX_MESSAGES = parseInt(process.env.AGGREGATION_MAX_MESSAGES || '0');
+const AGGREGATION_MAX_BYTES = parseInt(process.env.AGGREGATION_MAX_BYTES || '0');
+const SCHEDULER_POLL_INTERVAL = parseInt(process.env.SCHEDULER_POLL_INTERVAL || '1000');
+const QUEUE_LOCK_TTL = parseInt(process.env.QUEUE_LOCK_TTL || '90000');
+const DELIVERY_MAX_RETRIES = parseInt(process.env.DELIVERY_MAX_RETRIES || '3');
+const DELIVERY_RETRY_BASE_DELAY = parseInt(process.env.DELIVERY_RETRY_BASE_DELAY || '1000');
+const DELIVERY_RETRY_MAX_DELAY = parseInt(process.env.DELIVERY_RETRY_MAX_DELAY || '30000');
+const DEFAULT_DESTINATION = 'default';
+const NAME_PATTERN = /^[\w-]+$/;
+const AGGREGATION_STRATEGIES: AggregationStrategy[] = ['concatenate', 'array', 'merge', 'last', 'template'];
+const AGGREGATION_STRATEGY = (process.env.AGGREGATION_STRATEGY || 'concatenate') as AggregationStrategy;
+const SIGNATURE_TOLERANCE = parseInt(process.env.SIGNATURE_TOLERANCE || '300'); // segundos
+const SIGNATURE_HEADER = 'x-webhook-signature';
+const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+const AUDIT_MAX_ENTRIES = 1000;
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const IDEMPOTENCY_FIELD = process.env.IDEMPOTENCY_FIELD || '';
+const IDEMPOTENCY_WINDOW = parseInt(process.env.IDEMPOTENCY_WINDOW || '3600'); // segundos
+const HISTORY_MAX_ENTRIES = parseInt(process.env.HISTORY_MAX_ENTRIES || '1000');
+const HISTORY_PAGE_SIZE = 100;
+// Idade máxima dos itens do histórico em segundos; 0 mantém até o limite de HISTORY_MAX_ENTRIES
+const HISTORY_RETENTION = parseInt(process.env.HISTORY_RETENTION || '0');
+const HISTORY_PRUNE_INTERVAL = parseInt(process.env.HISTORY_PRUNE_INTERVAL || '60000');
+const REDACTION_PLACEHOLDER = '[REDACTED]';
+const REDACTION_FLAGS = /^[imsu]*$/;
+const LEGACY_STATUS_FIELD = process.env.LEGACY_STATUS_FIELD === 'true';
+const SHUTDOWN_MODE = process.env.SHUTDOWN_MODE === 'flush' ? 'flush' : 'handoff';
+const HEALTH_CHECK_TIMEOUT = parseInt(process.env.HEALTH_CHECK_TIMEOUT || '2000');
+const SOURCE_HEADER = 'x-webhook-source';
+const TELEGRAM_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+const WHATSAPP_SIGNATURE_HEADER = 'x-hub-signature-256';
+const REPLY_TTL = parseInt(process.env.REPLY_TTL || '3600'); // segundos
+const REPLY_MAX_WAIT = parseInt(process.env.REPLY_MAX_WAIT || '30000');
+const REPLY_POLL_INTERVAL = 250;
+const REPLY_WAIT_HEADER = 'x-reply-wait';
+const CALLBACK_URL_HEADER = 'x-callback-url';
+// Hosts aceitos em callbacks (ex.: n8n.exemplo.com,*.interno.exemplo.com); vazio desativa os callbacks
+const REPLY_CALLBACK_HOSTS = (process.env.REPLY_CALLBACK_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+const EVENTS_MAX_LENGTH = parseInt(process.env.EVENTS_MAX_LENGTH || '1000');
+const EVENTS_BLOCK_MS = 15000;
+const EVENTS_TOKEN_TTL = 60; // segundos
+const RATE_LIMIT_WINDOW = parseInt(process.env.RATE_LIMIT_WINDOW || '60000');
+const RATE_LIMIT_PER_IP = parseInt(process.env.RATE_LIMIT_PER_IP || '0');
+const RATE_LIMIT_PER_ID = parseInt(process.env.RATE_LIMIT_PER_ID || '0');
+const TRUST_PROXY = process.env.TRUST_PROXY || '';
+const QUEUE_MAX_MESSAGES = parseInt(process.env.QUEUE_MAX_MESSAGES || '0');
+const OVERFLOW_POLICIES: OverflowPolicy[] = ['reject', 'drop_oldest', 'flush'];
+const QUEUE_OVERFLOW_POLICY = (process.env.QUEUE_OVERFLOW_POLICY || 'reject') as OverflowPolicy;
+const DELIVERY_MAX_CONCURRENCY = parseInt(process.env.DELIVERY_MAX_CONCURRENCY || '0');
+const DELIVERY_MAX_PER_MINUTE = parseInt(process.env.DELIVERY_MAX_PER_MINUTE || '0');
+const DELIVERY_TIMEOUT = parseInt(process.env.DELIVERY_TIMEOUT || '30000');
+const DELIVERY_METHODS: DeliveryMethod[] = ['POST', 'PUT', 'PATCH'];
+const CONTENT_TYPES: Record<ContentType, string> = {
+    json: 'application/json',
+    form: 'application/x-www-form-urlencoded'
+};
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~\w-]+$/;
+// Definidos pelo próprio envio; não podem ser sobrescritos pelos cabeçalhos do destino
+const RESERVED_HEADERS = ['content-type', 'content-length', 'host', SIGNATURE_HEADER, TIMESTAMP_HEADER];
+const IMPORT_MAX_SIZE = process.env.IMPORT_MAX_SIZE || '10mb';
+const NDJSON_TYPES = ['application/x-ndjson', 'application/ndjson', 'text/plain'];
+
+// Colunas do export CSV; data traz o payload completo em JSON
+const HISTORY_CSV_COLUMNS: Record<HistoryType, string[]> = {
+    received: ['seq', 'timestamp', 'id', 'id_queue', 'message', 'data'],
+    sent: ['seq', 'timestamp', 'id', 'id_queue', 'destination', 'attempt', 'flushReason', 'status', 'data']
+};
+
+// Textos iniciados por =, +, -, @, tab ou CR seriam lidos como fórmula pelas planilhas; o ' os mantém como texto
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Formato normalizado exigido de toda mensagem, depois do mapeamento da fonte
+const MESSAGE_SCHEMA = {
+    type: 'object',
+    required: ['id', 'message'],
+    properties: {
+        id: { type: ['string', 'number'], minLength: 1 },
+        message: { type: 'string' }
+    }
+};
+
+// Comandos de status do modo legado não carregam mensagem
+const STATUS_COMMAND_SCHEMA = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+        id: { type: ['string', 'number'], minLength: 1 }
+    }
+};
+
+// Log das variáveis de ambiente (sem dados sensíveis)
+logger.info('Environment Check', {
+    REDIS_TTL: REDIS_TTL,
+    STORAGE_BACKEND: process.env.STORAGE_BACKEND || 'redis',
+    REDIS_URL: process.env.REDIS_URL ? 'Configurado' : 'Não configurado',
+    WEBHOOK_URL: process.env.WEBHOOK_URL ? 'Configurado' : 'Não configurado',
+    WEBHOOK_SECRET: process.env.WEBHOOK_SECRET ? 'Configurado' : 'Não configurado',
+    API_KEYS: process.env.API_KEYS ? 'Configurado' : 'Não configurado',
+    NODE_ENV: process.env.NODE_ENV
+});
+
+interface DeliveryResponse {
+    status: number;
+    data: any;
+    retryAfter?: number;
+}
+
+// Resultado do envio de um lote a um destino; throttledFor indica envio adiado pelo limite do destino
+type DeliveryOutcome =
+    | { name: string; throttledFor: number }
+    | { name: string; url: string; aggregatedMessage: any; attempt: number; response: DeliveryResponse; available: boolean };
+
+type DeliveryMethod = 'POST' | 'PUT' | 'PATCH';
+
+type ContentType = 'json' | 'form';
+
+// Opções de transporte de um envio; os campos de mesmo nome do destino são repassados direto
+interface DeliveryOptions {
+    secret?: string;
+    method?: DeliveryMethod;
+    contentType?: ContentType;
+    headers?: Record<string, string>;
+    timeout?: number;
+    followRedirects?: boolean;
+}
+
+interface Destination extends DeliveryOptions {
+    name: string;
+    url: string;
+    enabled: boolean;
+    aggregation?: AggregationConfig;
+    // Corpo enviado no lugar do envelope padrão; ver renderBodyTemplate
+    template?: any;
+    maxConcurrency?: number;
+    maxPerMinute?: number;
+}
+
+type AggregationStrategy = 'concatenate' | 'array' | 'merge' | 'last' | 'template';
+
+interface AggregationConfig {
+    strategy: AggregationStrategy;
+    template?: Record<string, any>;
+}
+
+// Regra de roteamento: todas as condições informadas precisam bater
+interface RoutingRule {
+    name: string;
+    idPattern?: string;
+    match?: Record<string, string | number | boolean>;
+    destinations: string[];
+    policy?: Partial<FlushPolicy>;
+}
+
+// Limites de agregação; 0 em maxWaitMs, maxMessages, maxBytes ou maxQueueMessages desativa o limite.
+// maxMessages dispara o envio; maxQueueMessages é o teto da fila, tratado conforme overflow
+interface FlushPolicy {
+    debounceMs: number;
+    maxWaitMs: number;
+    maxMessages: number;
+    maxBytes: number;
+    maxQueueMessages: number;
+    overflow: OverflowPolicy;
+}
+
+// Fonte de webhooks: schema valida o payload original do provedor e mapping
+// leva seus campos (caminhos com ponto) para o formato { id, message, ... }
+interface WebhookSource {
+    name: string;
+    schema?: Record<string, any>;
+    mapping?: Record<string, string>;
+    passthrough?: boolean;
+}
+
+// Aplicada aos itens antes de gravá-los no histórico: field troca o valor de um caminho
+// (com * para qualquer chave ou posição), pattern troca os trechos de texto que casam
+interface RedactionRule {
+    name: string;
+    field?: string;
+    pattern?: string;
+    flags?: string;
+    replacement?: string;
+}
+
+type IngestResult =
+    | { result: 'paused'; statusInfo: StatusInfo }
+    | { result: 'duplicate'; id_queue?: string }
+    | { result: 'queued' | 'held'; id_queue: string }
+    | { result: 'queue_full'; id_queue: string; retryAfter: number }
+    | { result: 'rate_limited'; retryAfter: number };
+
+interface ValidationError {
+    path: string;
+    message: string;
+    params?: Record<string, any>;
+}
+
+interface PolicyRule extends Partial<FlushPolicy> {
+    pattern: string;
+    aggregation?: AggregationConfig;
+}
+
+type EventType = 'received' | 'sent' | 'status' | 'queue';
+
+type FlushReason = 'debounce' | 'max_wait' | 'max_messages' | 'max_bytes' | 'queue_limit' | 'retry' | 'manual' | 'shutdown';
+
+type Role = 'admin' | 'viewer';
+
+interface ApiUser {
+    name: string;
+    role: Role;
+    key: string;
+}
+
+// Intervalo do agendador que processa as filas vencidas
+let schedulerInterval: NodeJS.Timeout | null = null;
+let isPolling = false;
+let lastHistoryPruneAt = 0;
+// Ativado no SIGTERM/SIGINT: novos webhooks são recusados enquanto as filas são drenadas
+let isShuttingDown = false;
+
+const API_USERS = parseApiKeys(process.env.API_KEYS || '');
+// Sem chaves a API fica fechada; AUTH_DISABLED=true libera tudo explicitamente (desenvolvimento local)
+const AUTH_DISABLED = process.env.AUTH_DISABLED === 'true';
+if (API_USERS.length === 0) {
+    logger.warn(AUTH_DISABLED
+        ? 'AUTH_DISABLED=true: dashboard e endpoints administrativos estão sem autenticação'
+        : 'API_KEYS não configurado: dashboard e endpoints administrativos estão bloqueados');
+}
+
+if (!OVERFLOW_POLICIES.includes(QUEUE_OVERFLOW_POLICY)) {
+    throw new Error(`QUEUE_OVERFLOW_POLICY inválido: ${QUEUE_OVERFLOW_POLICY} (use um de: ${OVERFLOW_POLICIES.join(', ')})`);
+}
+
+// Um envio mais longo que o lock deixaria outra instância enviar o mesmo lote em paralelo
+if (!Number.isInteger(DELIVERY_TIMEOUT) || DELIVERY_TIMEOUT <= 0 || DELIVERY_TIMEOUT >= QUEUE_LOCK_TTL) {
+    throw new Error(`DELIVERY_TIMEOUT inválido: ${process.env.DELIVERY_TIMEOUT} (use um inteiro positivo menor que QUEUE_LOCK_TTL, ${QUEUE_LOCK_TTL}ms)`);
+}
+
+// Atrás de proxy (ex.: Vercel) o IP do cliente vem do X-Forwarded-For; aceita número de saltos, true ou lista de IPs
+if (TRUST_PROXY) {
+    const hops = Number(TRUST_PROXY);
+    app.set('trust proxy', TRUST_PROXY === 'true' ? true : isNaN(hops) ? TRUST_PROXY : hops);
+}
+
+// Middleware para processar JSON, guardando o corpo bruto para a verificação de assinatura
+app.use(express.json({
+    verify: (req, res, buf) => {
+        (req as any).rawBody = buf;
+    }
+}));
+
+// Servir arquivos estáticos
+app.use(express.static('public'));
+
+// Armazenamento global; STORAGE_BACKEND escolhe entre Redis e memória
+export const storage = createStorage({
+    queueTtl: REDIS_TTL,
+    historyMaxEntries: HISTORY_MAX_ENTRIES,
+    eventsMaxLength: EVENTS_MAX_LENGTH
+});
+
+async function withStorage<T>(operation: (storage: Storage) => Promise<T>): Promise<T> {
+    try {
+        return await operation(storage);
+    } catch (error) {
+        storageErrors.inc();
+        logger.error('Erro na operação de armazenamento', { error });
+        throw error;
+    }
+}
+
+// Funções auxiliares de armazenamento com logs
+async function getQueueInfo(storage: Storage, id: string): Promise<QueueInfo | null> {
+    try {
+        logger.debug(`Buscando informações da fila para ID: ${id}`, { id });
+        const queueInfo = await storage.getQueue(id);
+        logger.debug(`Dados recuperados para ID ${id}`, { id, found: !!queueInfo });
+        return queueInfo;
+    } catch (error) {
+        logger.error(`Erro ao buscar fila para ID ${id}`, { id, error });
+        throw error;
+    }
+}
+
+async function getBatch(storage: Storage, id: string): Promise<QueueInfo | null> {
+    try {
+        return await storage.getBatch(id);
+    } catch (error) {
+        logger.error(`Erro ao buscar lote em envio para ID ${id}`, { id, error });
+        throw error;
+    }
+}
+
+// A primeira mensagem cria a fila (e o id_queue); cada nova mensagem renova o TTL, exceto em hold,
+// quando a fila fica sem expiração até a retomada
+async function appendToQueue(storage: Storage, id: string, message: WebhookMessage, policy: FlushPolicy, hold: boolean): Promise<AppendResult> {
+    try {
+        logger.debug(`Adicionando mensagem à fila do ID: ${id}`, { id });
+        // Em hold o envio forçado não acontece, então a fila cheia recusa novas mensagens
+        const overflow = hold && policy.overflow === 'flush' ? 'reject' : policy.overflow;
+        return await storage.appendToQueue(id, message, { maxMessages: policy.maxQueueMessages, overflow }, hold);
+    } catch (error) {
+        logger.error(`Erro ao salvar fila para ID ${id}`, { id, error });
+        throw error;
+    }
+}
+
+// Lê o status do ID, criando-o como online, e retoma pausas expiradas
+async function getStatus(storage: Storage, id: string): Promise<StatusInfo> {
+    try {
+        logger.debug(`Buscando status para ID: ${id}`, { id });
+        const statusInfo = await storage.getStatus(id);
+        if (!statusInfo) {
+            logger.info(`Status não encontrado para ID ${id}, definindo como online`, { id });
+            return await setStatus(storage, id, 'online');
+        }
+
+        if (statusInfo.until && Date.parse(statusInfo.until) <= Date.now()) {
+            logger.info(`Pausa do ID ${id} expirou em ${statusInfo.until}`, { id });
+            return await resumeQueue(storage, id, { reason: 'Pausa expirada', setBy: 'scheduler' });
+        }
+
+        logger.debug(`Status encontrado para ID ${id}: ${statusInfo.status}`, { id });
+        return statusInfo;
+    } catch (error) {
+        logger.error(`Erro ao buscar status para ID ${id}`, { id, error });
+        throw error;
+    }
+}
+
+async function setStatus(storage: Storage, id: string, status: QueueStatus, options: StatusOptions = {}): Promise<StatusInfo> {
+    try {
+        logger.debug(`Definindo status para ID ${id}: ${status}`, { id });
+        const statusInfo: StatusInfo = {
+            status,
+            setAt: new Date().toISOString(),
+            ...options
+        };
+        await storage.saveStatus(id, statusInfo);
+        // O hold pode durar mais que REDIS_TTL; o que já está na fila não pode expirar nesse tempo
+        if (status === 'hold') {
+            await storage.setQueuePersistent(id, true);
+        }
+        await publishEvent(storage, 'status', formatStatusEntry(id, statusInfo));
+        logger.debug(`Status definido com sucesso para ID ${id}`, { id });
+        return statusInfo;
+    } catch (error) {
+        logger.error(`Erro ao definir status para ID ${id}`, { id, error });
+        throw error;
+    }
+}
+
+// Volta o ID para online e agenda o envio imediato do que ficou retido
+async function resumeQueue(storage: Storage, id: string, options: StatusOptions = {}): Promise<StatusInfo> {
+    const statusInfo = await setStatus(storage, id, 'online', options);
+    await storage.setQueuePersistent(id, false);
+    if (await storage.countQueuedMessages(id) > 0) {
+        logger.info(`Agendando envio das mensagens retidas para ID ${id}`, { id });
+        await storage.scheduleQueue(id, Date.now());
+    }
+    return statusInfo;
+}
+
+// Retoma os IDs cuja pausa expirou; cada ID é entregue a uma única instância
+async function pollDueResumes(storage: Storage): Promise<void> {
+    for (const id of await storage.takeDueResumes(Date.now())) {
+        await getStatus(storage, id);
+    }
+}
+
+// Eventos do dashboard: o id de cada evento é o id SSE, o que permite retomar a partir do Last-Event-ID
+async function publishEvent(storage: Storage, type: EventType, data: any): Promise<void> {
+    try {
+        await storage.publishEvent(type, data);
+    } catch (error) {
+        // O evento é apenas informativo; falhar aqui não pode interromper o fluxo da fila
+        logger.warn(`Erro ao publicar evento ${type}`, { error });
+    }
+}
+
+async function addToHistory(storage: Storage, type: HistoryType, data: any): Promise<void> {
+    try {
+        logger.debug(`Adicionando ao histórico - Tipo: ${type}`);
+        const rules = await storage.listConfig<RedactionRule>('redactions');
+        const item = await storage.addToHistory(type, redactHistoryData(data, rules));
+        await publishEvent(storage, type, item);
+        logger.debug(`Histórico atualizado com sucesso - Tipo: ${type}`);
+    } catch (error) {
+        logger.error(`Erro ao adicionar ao histórico - Tipo: ${type}`, { error });
+        throw error;
+    }
+}
+
+// Mascara os dados antes de irem para o histórico; o payload entregue aos destinos não é alterado
+function redactHistoryData(data: any, rules: RedactionRule[]): any {
+    if (rules.length === 0) {
+        return data;
+    }
+    let redacted = JSON.parse(JSON.stringify(data));
+    for (const rule of rules) {
+        const replacement = rule.replacement ?? REDACTION_PLACEHOLDER;
+        if (rule.field) {
+            redactField(redacted, rule.field.split('.'), replacement);
+        } else if (rule.pattern) {
+            redacted = redactText(redacted, new RegExp(rule.pattern, `${rule.flags || ''}g`), replacement);
+        }
+    }
+    return redacted;
+}
+
+function redactField(value: any, path: string[], replacement: string): void {
+    if (value === null || typeof value !== 'object') {
+        return;
+    }
+    const [key, ...rest] = path;
+    const keys = key === '*' ? Object.keys(value) : [key];
+    for (const current of keys) {
+        if (!(current in value)) {
+            continue;
+        }
+        if (rest.length === 0) {
+            value[current] = replacement;
+        } else {
+            redactField(value[current], rest, replacement);
+        }
+    }
+}
+
+function redactText(value: any, pattern: RegExp, replacement: string): any {
+    if (typeof value === 'string') {
+        return value.replace(pattern, replacement);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redactText(item, pattern, replacement));
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactText(item, pattern, replacement)]));
+    }
+    return value;
+}
+
+// Remove os itens mais antigos que HISTORY_RETENTION; o lock faz só uma instância limpar por intervalo
+async function pruneExpiredHistory(storage: Storage): Promise<void> {
+    if (HISTORY_RETENTION <= 0 || Date.now() - lastHistoryPruneAt < HISTORY_PRUNE_INTERVAL) {
+        return;
+    }
+    lastHistoryPruneAt = Date.now();
+    if (!(await storage.acquireLock('history:prune', HISTORY_PRUNE_INTERVAL))) {
+        return;
+    }
+
+    const before = Date.now() - HISTORY_RETENTION * 1000;
+    for (const type of ['received', 'sent'] as HistoryType[]) {
+        const removed = await storage.pruneHistory(type, before);
+        if (removed > 0) {
+            historyRemoved.inc({ reason: 'retention' }, removed);
+            logger.info(`${removed} itens expirados removidos do histórico ${type}`);
+        }
+    }
+}
+
+// Formato das entradas de status exibidas no dashboard
+function formatStatusEntry(id: string, statusInfo: StatusInfo) {
+    return {
+        id,
+        status: statusInfo.status.toUpperCase(),
+        timestamp: new Date().toISOString(),
+        setAt: statusInfo.setAt,
+        reason: statusInfo.reason,
+        until: statusInfo.until,
+        data: { id }
+    };
+}
+
+// Filtros comuns de /history e /history/export; retorna null se algum valor for inválido
+function parseHistoryFilter(query: Record<string, any>): HistoryFilter | null {
+    const { id, id_queue, from, to, status, q } = query as Record<string, string | undefined>;
+    const filter: HistoryFilter = {
+        id,
+        id_queue,
+        from: from ? Date.parse(from) : undefined,
+        to: to ? Date.parse(to) : undefined,
+        status: status !== undefined ? parseInt(status) : undefined,
+        q
+    };
+    return [filter.from, filter.to, filter.status].some(value => value !== undefined && isNaN(value)) ? null : filter;
+}
+
+// Todos os itens que batem com o filtro, do mais antigo para o mais novo
+async function collectHistory(storage: Storage, type: HistoryType, filter: HistoryFilter): Promise<HistoryItem[]> {
+    const items: HistoryItem[] = [];
+    let cursor: number | undefined;
+    do {
+        const page = await storage.queryHistory(type, filter, HISTORY_MAX_ENTRIES, cursor);
+        items.push(...page.items);
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+    return items.reverse();
+}
+
+// O cursor traz os itens com seq menor que o informado, então seq + 1 começa no próprio item
+async function findHistoryItem(storage: Storage, type: HistoryType, seq: number): Promise<HistoryItem | null> {
+    const { items } = await storage.queryHistory(type, {}, 1, seq + 1);
+    return items[0]?.seq === seq ? items[0] : null;
+}
+
+function toCsvValue(value: any): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && CSV_FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toHistoryCsvRow(item: HistoryItem, columns: string[]): string {
+    const values: Record<string, any> = {
+        seq: item.seq,
+        timestamp: item.timestamp,
+        id: historyItemId(item),
+        id_queue: historyItemQueueId(item),
+        message: item.data?.message,
+        destination: item.destination,
+        attempt: item.attempt,
+        flushReason: item.flushReason,
+        status: item.response?.status,
+        data: item.data
+    };
+    return columns.map(column => toCsvValue(values[column])).join(',');
+}
+
+function isValidUrl(value: any): boolean {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+// Chave de idempotência do cabeçalho ou, se configurado, de um campo do payload
+function getIdempotencyKey(req: express.Request, payload: any): string | null {
+    const header = req.header(IDEMPOTENCY_HEADER);
+    if (header) {
+        return header;
+    }
+    if (IDEMPOTENCY_FIELD) {
+        const value = getFieldValue(payload, IDEMPOTENCY_FIELD);
+        if (value !== undefined && value !== null && value !== '') {
+            return String(value);
+        }
+    }
+    return null;
+}
+
+// Assinatura HMAC-SHA256 de "<timestamp>.<corpo>", no formato sha256=<hex>
+function signPayload(secret: string, timestamp: string, body: string | Buffer): string {
+    const hmac = crypto.createHmac('sha256', secret);
+    hmac.update(`${timestamp}.`);
+    hmac.update(body);
+    return `sha256=${hmac.digest('hex')}`;
+}
+
+function safeCompare(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// Conta a requisição na janela atual; retorna em quantos ms a janela reabre quando o limite
+// foi excedido, ou null. Falhas no armazenamento não bloqueiam a entrada
+async function checkRateLimit(storage: Storage, scope: 'ip' | 'id', key: string, limit: number): Promise<number | null> {
+    if (limit <= 0) {
+        return null;
+    }
+    try {
+        const { count, resetAt } = await storage.incrementCounter(`${scope}:${key}`, RATE_LIMIT_WINDOW);
+        if (count <= limit) {
+            return null;
+        }
+        rateLimited.inc({ scope });
+        return Math.max(resetAt - Date.now(), 0);
+    } catch (error) {
+        logger.warn(`Erro ao verificar limite de taxa (${scope} ${key})`, { error });
+        return null;
+    }
+}
+
+// Retry-After em segundos, no mínimo 1
+function setRetryAfter(res: express.Response, retryAfter: number) {
+    res.set('Retry-After', Math.max(Math.ceil(retryAfter / 1000), 1).toString());
+}
+
+function sendRateLimited(res: express.Response, retryAfter: number, message: string, data?: any) {
+    setRetryAfter(res, retryAfter);
+    return res.status(429).json({
+        status: 'error',
+        message,
+        data
+    });
+}
+
+async function rateLimitByIp(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const ip = req.ip || 'unknown';
+    const retryAfter = await checkRateLimit(storage, 'ip', ip, RATE_LIMIT_PER_IP);
+    if (retryAfter !== null) {
+        logger.info(`Limite de requisições excedido para o IP ${ip}`);
+        return sendRateLimited(res, retryAfter, 'Limite de requisições por IP excedido');
+    }
+    next();
+}
+
+// Durante o desligamento o remetente recebe 503 e deve reenviar para outra instância
+function rejectWhenShuttingDown(req: express.Request, res: express.Response, next: express.NextFunction) {
+    if (isShuttingDown) {
+        res.set('Retry-After', '5');
+        return res.status(503).json({
+            status: 'error',
+            message: 'Servidor em desligamento, tente novamente'
+        });
+    }
+    next();
+}
+
+// Valida a assinatura do webhook recebido quando WEBHOOK_SECRET está configurado
+async function verifyWebhookSignature(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const secret = process.env.WEBHOOK_SECRET;
+    if (!secret) {
+        return next();
+    }
+
+    const signature = req.header(SIGNATURE_HEADER);
+    const timestamp = req.header(TIMESTAMP_HEADER);
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+
+    if (!signature || !timestamp || !rawBody) {
+        logger.info('Requisição sem assinatura ou timestamp');
+        return res.status(401).json({
+            status: 'error',
+            message: 'Assinatura ausente'
+        });
+    }
+
+    const age = Math.abs(Date.now() / 1000 - parseInt(timestamp));
+    if (isNaN(age) || age > SIGNATURE_TOLERANCE) {
+        logger.info(`Timestamp da assinatura fora da tolerância: ${timestamp}`);
+        return res.status(401).json({
+            status: 'error',
+            message: 'Timestamp da assinatura expirado'
+        });
+    }
+
+    if (!safeCompare(signPayload(secret, timestamp, rawBody), signature)) {
+        logger.info('Assinatura inválida');
+        return res.status(401).json({
+            status: 'error',
+            message: 'Assinatura inválida'
+        });
+    }
+
+    try {
+        // Cada assinatura só pode ser usada uma vez dentro da janela de tolerância
+        const firstUse = await withStorage(storage => storage.claimSignature(signature, SIGNATURE_TOLERANCE * 2));
+        if (!firstUse) {
+            logger.info('Assinatura reutilizada, possível replay');
+            return res.status(401).json({
+                status: 'error',
+                message: 'Assinatura já utilizada'
+            });
+        }
+    } catch (error) {
+        logger.error('Erro ao verificar replay da assinatura', { error });
+        return res.status(500).json({
+            status: 'error',
+            message: 'Erro ao verificar assinatura'
+        });
+    }
+
+    next();
+}
+
+// Telegram envia o secret_token configurado no setWebhook em um cabeçalho próprio
+function verifyTelegramSecret(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const secret = process.env.TELEGRAM_SECRET_TOKEN;
+    if (secret && !safeCompare(req.header(TELEGRAM_SECRET_HEADER) || '', secret)) {
+        logger.info('Token secreto do Telegram inválido');
+        return res.status(401).json({
+            status: 'error',
+            message: 'Token secreto inválido'
+        });
+    }
+    next();
+}
+
+// WhatsApp Cloud API assina o corpo bruto com o App Secret: sha256=<hmac hex>
+function verifyWhatsAppSignature(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const secret = process.env.WHATSAPP_APP_SECRET;
+    if (!secret) {
+        return next();
+    }
+
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    const expected = `sha256=${crypto.createHmac('sha256', secret).update(rawBody || '').digest('hex')}`;
+    if (!rawBody || !safeCompare(expected, req.header(WHATSAPP_SIGNATURE_HEADER) || '')) {
+        logger.info('Assinatura do WhatsApp inválida');
+        return res.status(401).json({
+            status: 'error',
+            message: 'Assinatura inválida'
+        });
+    }
+    next();
+}
+
+// Evolution API não assina os eventos; a chave da instância vem no corpo (apikey) ou no cabeçalho
+function verifyEvolutionApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const apiKey = process.env.EVOLUTION_API_KEY;
+    if (apiKey && !safeCompare(req.header('apikey') || req.body?.apikey || '', apiKey)) {
+        logger.info('Chave da Evolution API inválida');
+        return res.status(401).json({
+            status: 'error',
+            message: 'Chave inválida'
+        });
+    }
+    next();
+}
+
+// EventSource não envia cabeçalhos; em vez da chave de API, a URL do stream leva um token
+// de curta duração no formato "<expira>.<hmac>.<usuário>", assinado com a chave do usuário
+function signEventsToken(user: ApiUser, expires: number): string {
+    return crypto.createHmac('sha256', user.key).update(`events:${user.name}:${expires}`).digest('hex');
+}
+
+function createEventsToken(user: ApiUser): { token: string; expiresAt: string } {
+    const expires = Math.floor(Date.now() / 1000) + EVENTS_TOKEN_TTL;
+    return {
+        token: `${expires}.${signEventsToken(user, expires)}.${user.name}`,
+        expiresAt: new Date(expires * 1000).toISOString()
+    };
+}
+
+function verifyEventsToken(token: string): ApiUser | undefined {
+    const [expiresPart, signature, ...nameParts] = token.split('.');
+    const expires = Number(expiresPart);
+    const user = API_USERS.find(candidate => candidate.name === nameParts.join('.'));
+    if (!user || !signature || !Number.isInteger(expires) || expires * 1000 <= Date.now()) {
+        return undefined;
+    }
+    return safeCompare(signEventsToken(user, expires), signature) ? user : undefined;
+}
+
+// Aceita o token de ?token= ou, sem ele, as mesmas credenciais de requireRole('viewer')
+function requireEventsAccess(req: express.Request, res: express.Response, next: express.NextFunction) {
+    if (typeof req.query.token !== 'string') {
+        return requireRole('viewer')(req, res, next);
+    }
+    const user = verifyEventsToken(req.query.token);
+    if (!user) {
+        return res.status(401).json({
+            status: 'error',
+            message: 'Token de eventos inválido ou expirado'
+        });
+    }
+    res.locals.user = { name: user.name, role: user.role };
+    next();
+}
+
+// Chaves de API no formato "nome:papel:chave", separadas por vírgula
+function parseApiKeys(value: string): ApiUser[] {
+    return value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+            const [name, role, ...keyParts] = entry.split(':');
+            const key = keyParts.join(':');
+            if (!name || !key || (role !== 'admin' && role !== 'viewer')) {
+                throw new Error(`Entrada inválida em API_KEYS: ${name || entry}`);
+            }
+            return { name, role, key };
+        });
+}
+
+function findApiUser(key: string): ApiUser | undefined {
+    return API_USERS.find(user => safeCompare(user.key, key));
+}
+
+// Exige uma chave de API com o papel informado; admin também tem acesso de viewer
+function requireRole(role: Role) {
+    return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        if (API_USERS.length === 0) {
+            if (AUTH_DISABLED) {
+                res.locals.user = { name: 'anonymous', role: 'admin' };
+                return next();
+            }
+            return res.status(401).json({
+                status: 'error',
+                message: 'Autenticação não configurada: defina API_KEYS'
+            });
+        }
+
+        const authorization = req.header('authorization') || '';
+        const key = authorization.startsWith('Bearer ') ? authorization.substring(7) : req.header('x-api-key');
+        const user = key ? findApiUser(key) : undefined;
+
+        if (!user) {
+            return res.status(401).json({
+                status: 'error',
+                message: 'Chave de API inválida ou ausente'
+            });
+        }
+
+        if (role === 'admin' && user.role !== 'admin') {
+            logger.info(`Acesso negado para ${user.name} em ${req.method} ${req.path}`);
+            return res.status(403).json({
+                status: 'error',
+                message: 'Acesso restrito a administradores'
+            });
+        }
+
+        res.locals.user = { name: user.name, role: user.role };
+        next();
+    };
+}
+
+// Registra quem executou cada ação administrativa; falhas no log não interrompem a operação
+async function recordAudit(actor: string, action: string, target: string, details?: any): Promise<void> {
+    try {
+        const entry: AuditEntry = {
+            timestamp: new Date().toISOString(),
+            actor,
+            action,
+            target,
+            details
+        };
+        await withStorage(storage => storage.addAuditEntry(entry, AUDIT_MAX_ENTRIES));
+        logger.info(`Auditoria: ${actor} executou ${action} em ${target}`);
+    } catch (error) {
+        logger.error('Erro ao registrar auditoria', { error });
+    }
+}
+
+function hashId(id: string): string {
+    return `sha256:${crypto.createHash('sha256').update(id).digest('hex')}`;
+}
+
+function getActor(res: express.Response): string {
+    return res.locals.user?.name || 'anonymous';
+}
+
+// Reenvio manual a partir do histórico: uma única tentativa, registrada como replay
+async function redeliver(storage: Storage, destination: Destination, id: string | undefined, idQueue: string | undefined, payload: any, details: Record<string, any>): Promise<DeliveryResponse> {
+    const response = await postWebhook(destination.url, payload, destination);
+    await addToHistory(storage, 'sent', {
+        id,
+        id_queue: idQueue,
+        data: payload,
+        destination: destination.name,
+        replay: true,
+        ...details,
+        response: {
+            status: response.status,
+            data: response.data
+        }
+    });
+    return response;
+}
+
+// Serializa o corpo conforme o contentType; em form, objetos e listas de cada campo vão como JSON
+function encodeBody(payload: any, contentType: ContentType): string {
+    if (contentType === 'json') {
+        return JSON.stringify(payload);
+    }
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(payload || {})) {
+        if (value !== undefined) {
+            params.append(key, value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+        }
+    }
+    return params.toString();
+}
+
+// Método, cabeçalhos e corpo da requisição, sem a assinatura (calculada no momento do envio)
+function buildRequest(payload: any, options: DeliveryOptions): { method: DeliveryMethod; headers: Record<string, string>; body: string } {
+    const contentType = options.contentType || 'json';
+    return {
+        method: options.method || 'POST',
+        headers: {
+            ...options.headers,
+            'Content-Type': CONTENT_TYPES[contentType]
+        },
+        body: encodeBody(payload, contentType)
+    };
+}
+
+// Faz uma única tentativa de entrega; erros de rede viram status 0
+async function postWebhook(url: string, payload: any, options: DeliveryOptions = {}): Promise<DeliveryResponse> {
+    try {
+        // O corpo é serializado aqui para que a assinatura cubra exatamente os bytes enviados
+        const { method, headers, body } = buildRequest(payload, options);
+        if (options.secret) {
+            const timestamp = Math.floor(Date.now() / 1000).toString();
+            headers[TIMESTAMP_HEADER] = timestamp;
+            headers[SIGNATURE_HEADER] = signPayload(options.secret, timestamp, body);
+        }
+
+        const axiosResponse = await axios.request({
+            url,
+            method,
+            data: body,
+            timeout: options.timeout ?? DELIVERY_TIMEOUT,
+            ...(options.followRedirects === false ? { maxRedirects: 0 } : {}),
+            validateStatus: () => true,
+            headers
+        });
+
+        const retryAfter = parseInt(axiosResponse.headers['retry-after']);
+        return {
+            status: axiosResponse.status,
+            data: axiosResponse.data,
+            retryAfter: isNaN(retryAfter) ? undefined : retryAfter * 1000
+        };
+    } catch (error) {
+        logger.error(`Erro na requisição do webhook para ${url}`, { error });
+        return {
+            status: 0,
+            data: {
+                error: error instanceof Error ? error.message : 'Erro desconhecido',
+                code: (error as any).code
+            }
+        };
+    }
+}
+
+// Reserva uma vaga de envio respeitando maxConcurrency e maxPerMinute do destino (ou os padrões do
+// ambiente). Sem vaga a entrega é adiada como nova tentativa, sem contar como tentativa
+async function acquireDeliverySlot(storage: Storage, destination: Destination): Promise<{ token?: string; throttled?: { limit: 'concurrency' | 'rate'; retryAfter: number } }> {
+    const maxConcurrency = destination.maxConcurrency ?? DELIVERY_MAX_CONCURRENCY;
+    const maxPerMinute = destination.maxPerMinute ?? DELIVERY_MAX_PER_MINUTE;
+    let token: string | undefined;
+
+    if (maxConcurrency > 0) {
+        token = (await storage.acquireSlot(`destination:${destination.name}`, maxConcurrency, QUEUE_LOCK_TTL)) ?? undefined;
+        if (!token) {
+            return { throttled: { limit: 'concurrency', retryAfter: DELIVERY_RETRY_BASE_DELAY } };
+        }
+    }
+
+    if (maxPerMinute > 0) {
+        const { count, resetAt } = await storage.incrementCounter(`destination:${destination.name}`, 60000);
+        if (count > maxPerMinute) {
+            if (token) {
+                await storage.releaseSlot(`destination:${destination.name}`, token);
+            }
+            return { throttled: { limit: 'rate', retryAfter: Math.max(resetAt - Date.now(), DELIVERY_RETRY_BASE_DELAY) } };
+        }
+    }
+
+    return { token };
+}
+
+function isSuccessStatus(status: number): boolean {
+    return status >= 200 && status < 300;
+}
+
+// Erros de rede, 429 e 5xx são temporários; os demais 4xx não mudam com nova tentativa
+function isRetryableStatus(status: number): boolean {
+    return status === 0 || status === 429 || status >= 500;
+}
+
+function getRetryDelay(attempt: number, retryAfter?: number): number {
+    const backoff = Math.min(DELIVERY_RETRY_BASE_DELAY * Math.pow(2, attempt - 1), DELIVERY_RETRY_MAX_DELAY);
+    return retryAfter ? Math.max(backoff, retryAfter) : backoff;
+}
+
+async function addToDeadLetter(storage: Storage, entry: DeadLetterEntry): Promise<void> {
+    try {
+        logger.info(`Movendo lote ${entry.id_queue} do ID ${entry.id} (destino ${entry.destination}) para a dead-letter`, { id: entry.id, id_queue: entry.id_queue });
+        await storage.saveDeadLetter(entry);
+        deadLetters.inc({ destination: entry.destination });
+    } catch (error) {
+        logger.error(`Erro ao mover lote ${entry.id_queue} para a dead-letter`, { id_queue: entry.id_queue, error });
+        throw error;
+    }
+}
+
+// Destinos cadastrados; o 'default' cai no WEBHOOK_URL quando não cadastrado
+async function getDestinations(storage: Storage): Promise<Destination[]> {
+    return storage.listConfig<Destination>('destinations');
+}
+
+async function findDestination(storage: Storage, name: string): Promise<Destination | null> {
+    const destination = await storage.getConfig<Destination>('destinations', name);
+    if (destination) {
+        return destination;
+    }
+    if (name === DEFAULT_DESTINATION && process.env.WEBHOOK_URL) {
+        return { name, url: process.env.WEBHOOK_URL, enabled: true };
+    }
+    return null;
+}
+
+// Oculta o segredo de assinatura e os valores dos cabeçalhos (ex.: tokens) nas respostas da API
+function maskDestination({ secret, ...destination }: Destination) {
+    return { ...destination, headers: maskHeaders(destination.headers), signed: !!secret };
+}
+
+function maskHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+    return headers && Object.fromEntries(Object.keys(headers).map(name => [name, '***']));
+}
+
+async function getRoutingRules(storage: Storage): Promise<RoutingRule[]> {
+    return storage.listConfig<RoutingRule>('routes');
+}
+
+// Lê um campo do payload usando notação com ponto (ex.: "contact.channel")
+function getFieldValue(data: any, path: string): any {
+    return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+// Converte um padrão com curingas (*) em expressão regular ancorada
+function matchesIdPattern(pattern: string, id: string): boolean {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`).test(id);
+}
+
+function matchesRule(rule: RoutingRule, id: string, payload: WebhookMessage): boolean {
+    if (rule.idPattern && !matchesIdPattern(rule.idPattern, id)) {
+        return false;
+    }
+    if (rule.match) {
+        return Object.entries(rule.match).every(([field, expected]) => getFieldValue(payload, field) === expected);
+    }
+    return true;
+}
+
+// Retorna os nomes dos destinos de todas as regras que batem, ou o destino padrão
+async function resolveDestinations(storage: Storage, id: string, payload: WebhookMessage): Promise<string[]> {
+    const rules = await getRoutingRules(storage);
+    const names = new Set<string>();
+    for (const rule of rules) {
+        if (matchesRule(rule, id, payload)) {
+            logger.info(`Regra de roteamento ${rule.name} aplicada ao ID ${id}`, { id });
+            rule.destinations.forEach(name => names.add(name));
+        }
+    }
+    return names.size > 0 ? Array.from(names) : [DEFAULT_DESTINATION];
+}
+
+function isPlainObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objetos são mesclados recursivamente; demais valores (inclusive arrays) da mensagem mais nova prevalecem
+function deepMerge(target: any, source: any): any {
+    const result = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+        result[key] = isPlainObject(result[key]) && isPlainObject(value) ? deepMerge(result[key], value) : value;
+    }
+    return result;
+}
+
+// Resolve uma expressão do template: $first.campo, $last.campo, $all.campo, $join.campo ou $count
+function resolveTemplateValue(expression: any, messages: WebhookMessage[]): any {
+    if (typeof expression !== 'string' || !expression.startsWith('$')) {
+        return expression;
+    }
+    if (expression === '$count') {
+        return messages.length;
+    }
+
+    const [source, ...path] = expression.substring(1).split('.');
+    const field = path.join('.');
+    switch (source) {
+        case 'first':
+            return getFieldValue(messages[0], field);
+        case 'last':
+            return getFieldValue(messages[messages.length - 1], field);
+        case 'all':
+            return messages.map(m => getFieldValue(m, field));
+        case 'join':
+            return messages.map(m => getFieldValue(m, field)).filter(v => v !== undefined).join('\n\n');
+        default:
+            return expression;
+    }
+}
+
+// Monta o corpo enviado ao destino; o formato de cada estratégia está em docs/aggregation.md.
+// Todas incluem id, id_queue e timestamp, que campos das mensagens não sobrescrevem
+export function aggregateMessages(id: string, queueInfo: QueueInfo, config: AggregationConfig): any {
+    const { messages } = queueInfo;
+    const lastMessage = messages[messages.length - 1];
+    const envelope = {
+        id,
+        id_queue: queueInfo.id_queue,
+        timestamp: new Date().toISOString()
+    };
+
+    switch (config.strategy) {
+        case 'array':
+            return { ...envelope, messages };
+        case 'merge': {
+            const merged = messages.reduce((result, message) => deepMerge(result, message), {});
+            return withEnvelope(envelope, [merged], merged);
+        }
+        case 'last':
+            return withEnvelope(envelope, [lastMessage], lastMessage);
+        case 'template': {
+            const mapped: Record<string, any> = {};
+            for (const [field, expression] of Object.entries(config.template || {})) {
+                mapped[field] = resolveTemplateValue(expression, messages);
+            }
+            return { ...envelope, ...mapped };
+        }
+        case 'concatenate':
+        default: {
+            const aggregated = messages.length > 1
+                ? [{ message: messages.map(m => m.message).join('\n\n') }]
+                : messages;
+            return withEnvelope(envelope, aggregated, lastMessage);
+        }
+    }
+}
+
+// Copia os campos da mensagem para o topo sem deixar que troquem o envelope ou a lista messages
+function withEnvelope(envelope: Record<string, any>, messages: any[], fields: Record<string, any>): any {
+    return Object.assign({ ...envelope, messages }, fields, envelope, { messages });
+}
+
+// Resolve o template do destino: textos iniciados por $ são expressões, objetos e listas são
+// percorridos e os demais valores vão como estão. Além das expressões de resolveTemplateValue,
+// $payload.campo lê o corpo agregado (ex.: $payload.id_queue) e $payload sozinho o devolve inteiro
+function renderBodyTemplate(template: any, payload: any, messages: WebhookMessage[]): any {
+    if (Array.isArray(template)) {
+        return template.map(item => renderBodyTemplate(item, payload, messages));
+    }
+    if (isPlainObject(template)) {
+        return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderBodyTemplate(value, payload, messages)]));
+    }
+    if (template === '$payload') {
+        return payload;
+    }
+    if (typeof template === 'string' && template.startsWith('$payload.')) {
+        return getFieldValue(payload, template.substring('$payload.'.length));
+    }
+    return resolveTemplateValue(template, messages);
+}
+
+// Corpo enviado a um destino: agregação do lote e, se houver, o template do destino
+function buildPayload(id: string, queueInfo: QueueInfo, destination: Destination | null, policyRule: PolicyRule | null): any {
+    const payload = aggregateMessages(id, queueInfo, getAggregationConfig(destination, policyRule));
+    return destination?.template !== undefined ? renderBodyTemplate(destination.template, payload, queueInfo.messages) : payload;
+}
+
+// Valida as opções de transporte e o template de um destino
+function parseDeliveryOptions(body: any): { options?: Pick<Destination, 'method' | 'contentType' | 'headers' | 'timeout' | 'template'>; error?: string } {
+    const { method, contentType, headers, timeout, template } = body;
+
+    if (method !== undefined && !DELIVERY_METHODS.includes(method)) {
+        return { error: `method inválido, use um de: ${DELIVERY_METHODS.join(', ')}` };
+    }
+    if (contentType !== undefined && !(contentType in CONTENT_TYPES)) {
+        return { error: `contentType inválido, use um de: ${Object.keys(CONTENT_TYPES).join(', ')}` };
+    }
+    if (headers !== undefined) {
+        if (!isPlainObject(headers)) {
+            return { error: 'headers deve ser um objeto de nome para valor' };
+        }
+        for (const [name, value] of Object.entries(headers)) {
+            if (!HEADER_NAME_PATTERN.test(name) || typeof value !== 'string' || /[\r\n]/.test(value)) {
+                return { error: `Cabeçalho inválido: ${name}` };
+            }
+            if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+                return { error: `O cabeçalho ${name} é definido pelo próprio envio` };
+            }
+        }
+    }
+    if (timeout !== undefined && (!Number.isInteger(timeout) || timeout <= 0)) {
+        return { error: 'timeout deve ser um inteiro positivo (ms)' };
+    }
+    if (timeout !== undefined && timeout >= QUEUE_LOCK_TTL) {
+        return { error: `timeout deve ser menor que QUEUE_LOCK_TTL (${QUEUE_LOCK_TTL}ms)` };
+    }
+    if (template !== undefined && !isPlainObject(template) && !Array.isArray(template)) {
+        return { error: 'template deve ser um objeto ou uma lista' };
+    }
+    if (contentType === 'form' && Array.isArray(template)) {
+        return { error: 'Com contentType form o template deve ser um objeto' };
+    }
+
+    return { options: { method, contentType, headers, timeout, template } };
+}
+
+// A estratégia do destino prevalece sobre a do ID
+function getAggregationConfig(destination: Destination | null, policyRule: PolicyRule | null): AggregationConfig {
+    return destination?.aggregation || policyRule?.aggregation || { strategy: AGGREGATION_STRATEGY };
+}
+
+function parseAggregationConfig(body: any): { aggregation?: AggregationConfig; error?: string } {
+    if (!isPlainObject(body)) {
+        return { error: 'aggregation deve ser um objeto' };
+    }
+    if (!AGGREGATION_STRATEGIES.includes(body.strategy)) {
+        return { error: `Estratégia inválida, use uma de: ${AGGREGATION_STRATEGIES.join(', ')}` };
+    }
+    if (body.strategy === 'template' && !isPlainObject(body.template)) {
+        return { error: 'A estratégia template precisa de um objeto template' };
+    }
+    return {
+        aggregation: body.strategy === 'template'
+            ? { strategy: body.strategy, template: body.template }
+            : { strategy: body.strategy }
+    };
+}
+
+// A resposta final de cada destino só fica visível para quem espera quando o lote termina (completeReply)
+async function recordReplyResponse(storage: Storage, id: string, idQueue: string, destination: string, delivered: boolean, response: DeliveryResponse): Promise<void> {
+    await storage.saveReplyResponse(idQueue, id, destination, { delivered, status: response.status, data: response.data }, REPLY_TTL);
+}
+
+// Long-polling no armazenamento para que a resposta chegue mesmo quando outra instância envia o lote
+async function waitForReply(storage: Storage, idQueue: string, timeoutMs: number): Promise<BatchReply | null> {
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+        const reply = await storage.getReply(idQueue);
+        if (reply || Date.now() >= deadline || isShuttingDown) {
+            return reply;
+        }
+        await new Promise(resolve => setTimeout(resolve, REPLY_POLL_INTERVAL));
+    }
+}
+
+// Tempo de espera pedido pelo chamador (cabeçalho ou ?wait=), limitado a REPLY_MAX_WAIT
+function getReplyWait(req: express.Request): number {
+    const value = parseInt(req.header(REPLY_WAIT_HEADER) || (req.query.wait as string) || '');
+    return isNaN(value) || value <= 0 ? 0 : Math.min(value, REPLY_MAX_WAIT);
+}
+
+// A URL vem de quem chamou /webhook: só hosts da lista, sem seguir redirecionamentos, e com
+// um segredo próprio, para que o callback não sirva de assinatura válida em outros endpoints
+function isAllowedCallbackUrl(value: string): boolean {
+    if (!isValidUrl(value)) {
+        return false;
+    }
+    const { hostname } = new URL(value);
+    return REPLY_CALLBACK_HOSTS.some(pattern => matchesIdPattern(pattern, hostname.toLowerCase()));
+}
+
+async function sendReplyCallback(url: string, reply: BatchReply): Promise<void> {
+    const response = await postWebhook(url, reply, { secret: process.env.REPLY_CALLBACK_SECRET, followRedirects: false });
+    if (!isSuccessStatus(response.status)) {
+        logger.warn(`Callback do lote ${reply.id_queue} falhou (status ${response.status})`, { id: reply.id, id_queue: reply.id_queue, url });
+    }
+}
+
+async function registerReplyCallback(storage: Storage, idQueue: string, url: string): Promise<void> {
+    // O lote pode ter terminado antes do registro; nesse caso o callback é enviado na hora
+    const reply = await storage.getReply(idQueue);
+    if (reply) {
+        await sendReplyCallback(url, reply);
+        return;
+    }
+    await storage.addReplyCallback(idQueue, url, REPLY_TTL);
+}
+
+async function completeReply(storage: Storage, id: string, idQueue: string): Promise<void> {
+    await storage.completeReply(idQueue, id, REPLY_TTL);
+
+    const urls = await storage.takeReplyCallbacks(idQueue);
+    if (urls.length === 0) {
+        return;
+    }
+    const reply = await storage.getReply(idQueue);
+    if (reply) {
+        await Promise.all(urls.map(url => sendReplyCallback(url, reply)));
+    }
+}
+
+async function sendAggregatedWebhook(storage: Storage, id: string, flushReason: FlushReason): Promise<void> {
+    logger.info(`Iniciando envio de webhook agregado para ID: ${id}`, { id });
+
+    // Move a fila pendente para o lote em envio, a menos que já exista um lote aguardando nova tentativa
+    const queueInfo = await storage.claimBatch(id);
+    if (!queueInfo) {
+        logger.info(`Nenhuma mensagem para enviar para ID: ${id}`, { id });
+        return;
+    }
+    
+    logger.debug(`Conteúdo do lote para ID ${id}`, { id, id_queue: queueInfo.id_queue, messages: queueInfo.messages });
+
+    const lastMessage = queueInfo.messages[queueInfo.messages.length - 1];
+    const policyRule = await findPolicyRule(storage, id);
+
+    // Lote recém-movido da fila: os destinos são gravados já aqui, então novas tentativas e
+    // passagens adiadas pelo limite do destino não contam o lote de novo
+    if (!queueInfo.deliveries) {
+        const names = await resolveDestinations(storage, id, lastMessage);
+        queueInfo.deliveries = {};
+        for (const name of names) {
+            queueInfo.deliveries[name] = { attempts: 0, delivered: false };
+        }
+        await storage.saveBatchDeliveries(id, queueInfo.deliveries);
+        batchesFlushed.inc({ reason: flushReason });
+    }
+    const deliveries = queueInfo.deliveries;
+    const pending = Object.keys(deliveries).filter(name => !deliveries[name].delivered);
+
+    // Entrega em paralelo para cada destino pendente
+    const results = await Promise.all(pending.map(async (name): Promise<DeliveryOutcome> => {
+        const destination = await findDestination(storage, name);
+        const attempt = deliveries[name].attempts + 1;
+        const aggregatedMessage = buildPayload(id, queueInfo, destination, policyRule);
+        let response: DeliveryResponse;
+
+        if (!destination || !destination.enabled) {
+            logger.error(`Destino ${name} não encontrado ou desativado para ID ${id}`, { id, id_queue: queueInfo.id_queue, destination: name });
+            response = { status: 0, data: { error: `Destino ${name} não encontrado ou desativado` } };
+        } else {
+            const { token, throttled } = await acquireDeliverySlot(storage, destination);
+            if (throttled) {
+                logger.info(`Envio para o destino ${name} adiado em ${throttled.retryAfter}ms (limite de ${throttled.limit === 'rate' ? 'taxa' : 'concorrência'})`, { id, id_queue: queueInfo.id_queue, destination: name });
+                deliveriesThrottled.inc({ destination: name, limit: throttled.limit });
+                return { name, throttledFor: throttled.retryAfter };
+            }
+
+            logger.info(`Enviando webhook agregado para ID ${id} no destino ${name}`, { id, id_queue: queueInfo.id_queue, destination: name, attempt });
+            logger.debug('Payload do webhook agregado', { id, id_queue: queueInfo.id_queue, destination: name, payload: aggregatedMessage });
+            const startedAt = Date.now();
+            try {
+                response = await postWebhook(destination.url, aggregatedMessage, destination);
+            } finally {
+                if (token) {
+                    await storage.releaseSlot(`destination:${name}`, token);
+                }
+            }
+            const durationMs = Date.now() - startedAt;
+            deliveryDuration.observe({ destination: name, status: String(response.status) }, durationMs / 1000);
+            logger.info(`Resposta do destino ${name} para ID ${id}`, { id, id_queue: queueInfo.id_queue, destination: name, status: response.status, durationMs });
+        }
+
+        deliveryCounter.inc({ destination: name, status: String(response.status) });
+        return { name, url: destination?.url || '', aggregatedMessage, attempt, response, available: !!destination?.enabled };
+    }));
+
+    let nextRetryDelay: number | null = null;
+
+    for (const result of results) {
+        // Adiado pelo limite do destino: tenta de novo sem consumir uma tentativa
+        if ('throttledFor' in result) {
+            nextRetryDelay = nextRetryDelay === null ? result.throttledFor : Math.min(nextRetryDelay, result.throttledFor);
+            continue;
+        }
+
+        const { name, url, aggregatedMessage, attempt, response, available } = result;
+        deliveries[name].attempts = attempt;
+
+        // Registra o envio no histórico independente do resultado
+        await addToHistory(storage, 'sent', {
+            id,
+            id_queue: queueInfo.id_queue,
+            data: aggregatedMessage,
+            destination: name,
+            attempt,
+            flushReason,
+            response: {
+                status: response.status,
+                data: response.data
+            }
+        });
+
+        if (isSuccessStatus(response.status)) {
+            deliveries[name].delivered = true;
+            await recordReplyResponse(storage, id, queueInfo.id_queue, name, true, response);
+            continue;
+        }
+
+        if (available && isRetryableStatus(response.status) && attempt <= DELIVERY_MAX_RETRIES) {
+            const delay = getRetryDelay(attempt, response.retryAfter);
+            logger.warn(`Falha temporária no envio para ID ${id} no destino ${name} (status ${response.status}), nova tentativa em ${delay}ms`, { id, id_queue: queueInfo.id_queue, destination: name });
+            deliveryRetries.inc({ destination: name });
+            nextRetryDelay = nextRetryDelay === null ? delay : Math.min(nextRetryDelay, delay);
+            continue;
+        }
+
+        await addToDeadLetter(storage, {
+            deadLetterId: `${queueInfo.id_queue}-${name}`,
+            id,
+            id_queue: queueInfo.id_queue,
+            destination: name,
+            url,
+            payload: aggregatedMessage,
+            messages: queueInfo.messages,
+            attempts: attempt,
+            lastResponse: {
+                status: response.status,
+                data: response.data
+            },
+            failedAt: new Date().toISOString()
+        });
+        // Lote na dead-letter não é mais reenviado automaticamente para este destino
+        deliveries[name].delivered = true;
+        await recordReplyResponse(storage, id, queueInfo.id_queue, name, false, response);
+    }
+
+    if (nextRetryDelay !== null) {
+        const retryAt = Date.now() + nextRetryDelay;
+        await storage.saveBatchDeliveries(id, deliveries);
+        await storage.scheduleQueue(id, retryAt);
+        await publishEvent(storage, 'queue', { id, id_queue: queueInfo.id_queue, action: 'retry', scheduledAt: new Date(retryAt).toISOString() });
+        return;
+    }
+
+    // Remove o lote enviado; true indica que chegaram novas mensagens durante o envio
+    const hasPendingQueue = await storage.completeBatch(id);
+    await completeReply(storage, id, queueInfo.id_queue);
+    await publishEvent(storage, 'queue', { id, id_queue: queueInfo.id_queue, action: 'flushed', flushReason });
+    logger.info(`Processo de webhook concluído para ID: ${id}`, { id, id_queue: queueInfo.id_queue });
+
+    // Mensagens recebidas durante o envio formam a próxima fila e seguem a política normal
+    if (hasPendingQueue) {
+        const pendingQueue = await getQueueInfo(storage, id);
+        if (pendingQueue) {
+            const policy = await resolveFlushPolicy(storage, id, pendingQueue.messages[pendingQueue.messages.length - 1]);
+            await scheduleQueueProcessing(storage, id, pendingQueue, policy);
+        }
+    }
+}
+
+// Função para processar uma fila específica
+async function processQueue(id: string) {
+    logger.info(`Processando fila para ID: ${id}`, { id });
+    try {
+        const statusInfo = await getStatus(storage, id);
+        if (statusInfo.status === 'hold') {
+            logger.info(`ID ${id} em hold, envio adiado até a retomada`, { id });
+            await storage.unscheduleQueue(id);
+            // Se a retomada aconteceu durante a remoção, o envio volta a ser agendado
+            if ((await getStatus(storage, id)).status !== 'hold') {
+                await storage.scheduleQueue(id, Date.now());
+            }
+            return;
+        }
+
+        // Um lote aguardando nova tentativa tem prioridade sobre a fila pendente
+        const queueInfo = (await getBatch(storage, id)) || (await getQueueInfo(storage, id));
+        
+        if (!queueInfo) {
+            logger.info(`Fila vazia para ID ${id}, removendo agendamento`, { id });
+            await storage.completeBatch(id);
+            return;
+        }
+
+        const policy = await resolveFlushPolicy(storage, id, queueInfo.messages[queueInfo.messages.length - 1]);
+        const flushReason = getFlushReason(queueInfo, policy);
+
+        logger.info(`Iniciando processamento para ID ${id} com ${queueInfo.messages.length} mensagens (motivo: ${flushReason})`, { id });
+        await sendAggregatedWebhook(storage, id, flushReason);
+        
+    } catch (error) {
+        // A fila é mantida: o agendamento é adiado para não perder as mensagens
+        logger.error(`Erro ao processar fila ${id}`, { id, error });
+        try {
+            await storage.scheduleQueue(id, Date.now() + DELIVERY_RETRY_BASE_DELAY);
+        } catch (rescheduleError) {
+            logger.error(`Erro ao reagendar fila ${id}`, { id, error: rescheduleError });
+        }
+    }
+}
+
+function getQueueSize(queueInfo: QueueInfo): number {
+    return Buffer.byteLength(JSON.stringify(queueInfo.messages));
+}
+
+// Política mais específica para o ID: exata, depois o padrão mais longo
+async function findPolicyRule(storage: Storage, id: string): Promise<PolicyRule | null> {
+    const rules = await storage.listConfig<PolicyRule>('policies');
+    const matching = rules
+        .filter(rule => matchesIdPattern(rule.pattern, id))
+        .sort((a, b) => {
+            const exactA = a.pattern.includes('*') ? 0 : 1;
+            const exactB = b.pattern.includes('*') ? 0 : 1;
+            return exactB - exactA || b.pattern.length - a.pattern.length;
+        });
+    return matching[0] || null;
+}
+
+// Política por ID, senão a da primeira rota com política, senão os valores do ambiente
+async function resolveFlushPolicy(storage: Storage, id: string, payload: WebhookMessage): Promise<FlushPolicy> {
+    const defaults: FlushPolicy = {
+        debounceMs: AGGREGATION_WINDOW,
+        maxWaitMs: AGGREGATION_MAX_WAIT,
+        maxMessages: AGGREGATION_MAX_MESSAGES,
+        maxBytes: AGGREGATION_MAX_BYTES,
+        maxQueueMessages: QUEUE_MAX_MESSAGES,
+        overflow: QUEUE_OVERFLOW_POLICY
+    };
+
+    const policyRule = await findPolicyRule(storage, id);
+    if (policyRule) {
+        const { pattern, aggregation, ...settings } = policyRule;
+        return { ...defaults, ...settings };
+    }
+
+    const rules = await getRoutingRules(storage);
+    const route = rules.find(rule => rule.policy && matchesRule(rule, id, payload));
+    return route ? { ...defaults, ...route.policy } : defaults;
+}
+
+function getFlushReason(queueInfo: QueueInfo, policy: FlushPolicy, now = Date.now()): FlushReason {
+    if (queueInfo.deliveries) {
+        return 'retry';
+    }
+    if (policy.maxMessages > 0 && queueInfo.messages.length >= policy.maxMessages) {
+        return 'max_messages';
+    }
+    if (policy.maxBytes > 0 && getQueueSize(queueInfo) >= policy.maxBytes) {
+        return 'max_bytes';
+    }
+    if (policy.overflow === 'flush' && policy.maxQueueMessages > 0 && queueInfo.messages.length >= policy.maxQueueMessages) {
+        return 'queue_limit';
+    }
+    if (policy.maxWaitMs > 0 && now >= (queueInfo.createdAt ?? now) + policy.maxWaitMs) {
+        return 'max_wait';
+    }
+    return 'debounce';
+}
+
+// Função para agendar o processamento de uma fila
+// O prazo fica no armazenamento para que qualquer instância possa enviar a fila
+async function scheduleQueueProcessing(storage: Storage, id: string, queueInfo: QueueInfo, policy: FlushPolicy): Promise<void> {
+    const now = Date.now();
+    let dueAt = now + policy.debounceMs;
+
+    // O tempo máximo de espera limita o adiamento causado por novas mensagens
+    if (policy.maxWaitMs > 0) {
+        dueAt = Math.min(dueAt, (queueInfo.createdAt ?? now) + policy.maxWaitMs);
+    }
+
+    const reason = getFlushReason(queueInfo, policy, now);
+    if (reason === 'max_messages' || reason === 'max_bytes' || reason === 'queue_limit') {
+        dueAt = now;
+    }
+
+    // Com um lote aguardando nova tentativa o prazo gravado é o do backoff; novas mensagens
+    // não o antecipam, e a fila pendente é agendada pela política quando o lote for concluído
+    const retrying = (await storage.getBatch(id)) !== null;
+    if (!(await storage.scheduleQueue(id, dueAt, retrying)) && retrying) {
+        logger.info(`Fila ${id} mantém o agendamento do lote aguardando nova tentativa`, { id });
+        return;
+    }
+    logger.info(`Agendando processamento da fila ${id} para ${new Date(dueAt).toISOString()}`, { id });
+    await publishEvent(storage, 'queue', {
+        id,
+        id_queue: queueInfo.id_queue,
+        action: 'scheduled',
+        messageCount: queueInfo.messages.length,
+        scheduledAt: new Date(dueAt).toISOString()
+    });
+}
+
+function parseFlushPolicy(body: any): { policy?: Partial<FlushPolicy>; error?: string } {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return { error: 'Política deve ser um objeto' };
+    }
+
+    const policy: Partial<FlushPolicy> = {};
+    if (body.overflow !== undefined) {
+        if (!OVERFLOW_POLICIES.includes(body.overflow)) {
+            return { error: `overflow inválido, use um de: ${OVERFLOW_POLICIES.join(', ')}` };
+        }
+        policy.overflow = body.overflow;
+    }
+    for (const field of ['debounceMs', 'maxWaitMs', 'maxMessages', 'maxBytes', 'maxQueueMessages'] as const) {
+        const value = body[field];
+        if (value === undefined) {
+            continue;
+        }
+        if (!Number.isInteger(value) || value < 0) {
+            return { error: `${field} deve ser um inteiro maior ou igual a zero` };
+        }
+        policy[field] = value;
+    }
+    return { policy };
+}
+
+async function acquireQueueLock(storage: Storage, id: string): Promise<string | null> {
+    return storage.acquireLock(`queue:${id}`, QUEUE_LOCK_TTL);
+}
+
+async function releaseQueueLock(storage: Storage, id: string, token: string): Promise<void> {
+    await storage.releaseLock(`queue:${id}`, token);
+}
+
+// Busca as filas com prazo vencido e processa as que esta instância conseguir travar
+// Retorna quantas filas foram processadas, ou null se esta instância já estava verificando
+export async function pollDueQueues(): Promise<number | null> {
+    if (isPolling) {
+        return null;
+    }
+    isPolling = true;
+    let processed = 0;
+
+    try {
+        await pollDueResumes(storage);
+        await pruneExpiredHistory(storage);
+
+        const due = await storage.listScheduledQueues(Date.now());
+
+        for (const { id } of due) {
+            // No desligamento as filas restantes ficam para o shutdown ou outra instância
+            if (isShuttingDown) {
+                break;
+            }
+            const token = await acquireQueueLock(storage, id);
+            if (!token) {
+                logger.info(`Fila ${id} já está sendo processada por outra instância`, { id });
+                continue;
+            }
+
+            try {
+                // Uma nova mensagem pode ter adiado o prazo entre a busca e o lock
+                const dueAt = await storage.getQueueSchedule(id);
+                if (dueAt === null || dueAt > Date.now()) {
+                    continue;
+                }
+                await processQueue(id);
+                processed++;
+            } finally {
+                await releaseQueueLock(storage, id, token);
+            }
+        }
+    } catch (error) {
+        logger.error('Erro ao verificar filas agendadas', { error });
+    } finally {
+        isPolling = false;
+    }
+    return processed;
+}
+
+// Agenda as filas que ficaram pendentes sem prazo registrado (ex.: criadas antes do agendador durável)
+async function recoverPendingQueues(storage: Storage): Promise<void> {
+    let recovered = 0;
+    for (const id of await storage.listQueueIds()) {
+        if (await storage.scheduleQueue(id, Date.now(), true)) {
+            recovered++;
+        }
+    }
+    logger.info(`Filas pendentes recuperadas na inicialização: ${recovered}`);
+}
+
+export function startScheduler() {
+    if (schedulerInterval) {
+        return;
+    }
+    logger.info(`Iniciando agendador de filas (intervalo de ${SCHEDULER_POLL_INTERVAL}ms)`);
+    schedulerInterval = setInterval(pollDueQueues, SCHEDULER_POLL_INTERVAL);
+}
+
+export function stopScheduler() {
+    if (schedulerInterval) {
+        clearInterval(schedulerInterval);
+        schedulerInterval = null;
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Tempo limite de ${ms}ms excedido`)), ms);
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            error => { clearTimeout(timer); reject(error); }
+        );
+    });
+}
+
+async function checkStorage(): Promise<{ backend: string; ok: boolean; latencyMs?: number; error?: string }> {
+    const startedAt = Date.now();
+    try {
+        await withTimeout(storage.ping(), HEALTH_CHECK_TIMEOUT);
+        return { backend: storage.backend, ok: true, latencyMs: Date.now() - startedAt };
+    } catch (error) {
+        return { backend: storage.backend, ok: false, error: (error as Error).message };
+    }
+}
+
+// Qualquer resposta HTTP conta como alcançável; só erro de rede ou timeout indica falha
+async function checkDestinations(storage: Storage): Promise<Record<string, { reachable: boolean; status?: number; error?: string }>> {
+    const destinations = (await getDestinations(storage)).filter(destination => destination.enabled);
+    const results = await Promise.all(destinations.map(async destination => {
+        try {
+            const response = await axios.head(destination.url, {
+                timeout: HEALTH_CHECK_TIMEOUT,
+                validateStatus: () => true
+            });
+            return [destination.name, { reachable: true, status: response.status }] as const;
+        } catch (error) {
+            return [destination.name, { reachable: false, error: (error as Error).message }] as const;
+        }
+    }));
+    return Object.fromEntries(results);
+}
+
+// Envia as filas agendadas antes de sair; o que não couber no prazo continua armazenado
+// e é enviado por outra instância ou na próxima inicialização
+async function flushQueuesForShutdown(storage: Storage, deadline: number): Promise<void> {
+    const scheduled = await storage.listScheduledQueues();
+    let flushed = 0;
+
+    for (const { id } of scheduled) {
+        if (Date.now() >= deadline) {
+            break;
+        }
+        const token = await acquireQueueLock(storage, id);
+        if (!token) {
+            continue;
+        }
+        try {
+            if ((await getStatus(storage, id)).status === 'hold') {
+                continue;
+            }
+            await sendAggregatedWebhook(storage, id, 'shutdown');
+            flushed++;
+        } catch (error) {
+            logger.error(`Erro ao enviar fila ${id} no desligamento`, { id, error });
+        } finally {
+            await releaseQueueLock(storage, id, token);
+        }
+    }
+
+    logger.info(`Filas enviadas no desligamento: ${flushed} de ${scheduled.length}`);
+}
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validators = new Map<string, ValidateFunction>();
+
+// Os schemas são lidos a cada requisição; a compilação é reaproveitada pelo conteúdo
+function getValidator(schema: Record<string, any>): ValidateFunction {
+    const key = JSON.stringify(schema);
+    let validate = validators.get(key);
+    if (!validate) {
+        validate = ajv.compile(schema);
+        validators.set(key, validate);
+    }
+    return validate;
+}
+
+function validatePayload(schema: Record<string, any>, payload: any): ValidationError[] {
+    const validate = getValidator(schema);
+    if (validate(payload)) {
+        return [];
+    }
+    return (validate.errors || []).map(error => ({
+        path: error.instancePath || '/',
+        message: error.message || 'valor inválido',
+        params: error.params
+    }));
+}
+
+async function getSource(storage: Storage, name: string): Promise<WebhookSource | null> {
+    return storage.getConfig<WebhookSource>('sources', name);
+}
+
+// Campos não mapeados são mantidos, a menos que passthrough seja false
+function applySourceMapping(source: WebhookSource, payload: any): Record<string, any> {
+    if (!source.mapping) {
+        return payload;
+    }
+    const mapped: Record<string, any> = source.passthrough === false ? {} : { ...payload };
+    for (const [field, path] of Object.entries(source.mapping)) {
+        const value = getFieldValue(payload, path);
+        if (value !== undefined) {
+            mapped[field] = value;
+        }
+    }
+    return mapped;
+}
+
+function parseSource(name: string, body: any): { source?: WebhookSource; error?: string } {
+    if (!isPlainObject(body)) {
+        return { error: 'Corpo da requisição deve ser um objeto' };
+    }
+    const { schema, mapping, passthrough } = body;
+
+    if (schema !== undefined) {
+        if (!isPlainObject(schema)) {
+            return { error: 'schema deve ser um objeto JSON Schema' };
+        }
+        try {
+            getValidator(schema);
+        } catch (error) {
+            return { error: `schema inválido: ${(error as Error).message}` };
+        }
+    }
+    if (mapping !== undefined && (!isPlainObject(mapping) || Object.values(mapping).some(path => typeof path !== 'string' || !path))) {
+        return { error: 'mapping deve ser um objeto de campo para caminho' };
+    }
+    if (passthrough !== undefined && typeof passthrough !== 'boolean') {
+        return { error: 'passthrough deve ser booleano' };
+    }
+
+    return { source: { name, schema, mapping, passthrough } };
+}
+
+function parseRedactionRule(name: string, body: any): { rule?: RedactionRule; error?: string } {
+    if (!isPlainObject(body)) {
+        return { error: 'Corpo da requisição deve ser um objeto' };
+    }
+    const { field, pattern, flags, replacement } = body;
+
+    if ((field === undefined) === (pattern === undefined)) {
+        return { error: 'Informe field ou pattern' };
+    }
+    if (field !== undefined && (typeof field !== 'string' || field.split('.').some(key => !key))) {
+        return { error: 'field deve ser um caminho com ponto (ex.: contact.phone ou messages.*.phone)' };
+    }
+    if (pattern !== undefined) {
+        if (typeof pattern !== 'string' || !pattern) {
+            return { error: 'pattern deve ser uma expressão regular' };
+        }
+        if (flags !== undefined && (typeof flags !== 'string' || !REDACTION_FLAGS.test(flags))) {
+            return { error: 'flags aceita apenas i, m, s e u' };
+        }
+        try {
+            new RegExp(pattern, flags);
+        } catch (error) {
+            return { error: `pattern inválido: ${(error as Error).message}` };
+        }
+    }
+    if (replacement !== undefined && typeof replacement !== 'string') {
+        return { error: 'replacement deve ser um texto' };
+    }
+
+    return { rule: { name, field, pattern, flags: pattern !== undefined ? flags : undefined, replacement } };
+}
+
+// Regras comuns de entrada usadas por /webhook e pelos adaptadores de provedores: aplica o limite
+// de taxa do ID, descarta se pausado, deduplica pela chave de idempotência e enfileira (ou retém em hold)
+async function ingestMessage(storage: Storage, id: string, message: WebhookMessage, idempotencyKey: string | null): Promise<IngestResult> {
+    const retryAfter = await checkRateLimit(storage, 'id', id, RATE_LIMIT_PER_ID);
+    if (retryAfter !== null) {
+        logger.info(`Limite de mensagens excedido para ID ${id}`, { id });
+        messagesReceived.inc({ result: 'rate_limited' });
+        return { result: 'rate_limited', retryAfter };
+    }
+
+    const currentStatus = await getStatus(storage, id);
+    if (currentStatus.status === 'paused') {
+        logger.info(`ID ${id} está pausado, ignorando mensagem`, { id });
+        messagesReceived.inc({ result: 'paused' });
+        return { result: 'paused', statusInfo: currentStatus };
+    }
+
+    // Reserva a chave na janela de deduplicação; falha se ela já foi vista
+    if (idempotencyKey && !(await storage.claimIdempotencyKey(id, idempotencyKey, IDEMPOTENCY_WINDOW))) {
+        const idQueue = await storage.getIdempotencyKey(id, idempotencyKey);
+        logger.info(`Webhook duplicado para ID ${id} (chave ${idempotencyKey}), ignorando`, { id, id_queue: idQueue });
+        messagesReceived.inc({ result: 'duplicate' });
+        return { result: 'duplicate', id_queue: idQueue && idQueue !== 'pending' ? idQueue : undefined };
+    }
+
+    const hold = currentStatus.status === 'hold';
+    let appended: AppendResult;
+    try {
+        appended = await enqueueMessage(storage, id, message, hold);
+    } catch (error) {
+        // Libera a chave para que o reenvio do remetente possa ser processado
+        if (idempotencyKey) {
+            await storage.releaseIdempotencyKey(id, idempotencyKey);
+        }
+        throw error;
+    }
+
+    if (appended.rejected) {
+        if (idempotencyKey) {
+            await storage.releaseIdempotencyKey(id, idempotencyKey);
+        }
+        messagesReceived.inc({ result: 'queue_full' });
+        // A fila libera espaço quando for enviada; em hold, sem envio agendado, vale a janela de agregação
+        const dueAt = await storage.getQueueSchedule(id);
+        const retryAfter = dueAt !== null && !hold ? Math.max(dueAt - Date.now(), 0) : AGGREGATION_WINDOW;
+        return { result: 'queue_full', id_queue: appended.id_queue, retryAfter };
+    }
+
+    if (idempotencyKey) {
+        await storage.setIdempotencyQueue(id, idempotencyKey, appended.id_queue);
+    }
+    messagesReceived.inc({ result: hold ? 'held' : 'queued' });
+    return { result: hold ? 'held' : 'queued', id_queue: appended.id_queue };
+}
+
+// Adiciona a mensagem à fila do ID, registra no histórico e agenda o envio
+// Com hold a mensagem fica retida e o envio só é agendado na retomada
+async function enqueueMessage(storage: Storage, id: string, message: WebhookMessage, hold = false): Promise<AppendResult> {
+    const policy = await resolveFlushPolicy(storage, id, message);
+    const appended = await appendToQueue(storage, id, message, policy, hold);
+    const { id_queue, count } = appended;
+
+    if (appended.rejected) {
+        logger.warn(`Fila do ID ${id} cheia (${count} mensagens), mensagem recusada`, { id, id_queue });
+        queueOverflows.inc({ policy: 'reject' });
+        return appended;
+    }
+    if (appended.dropped > 0) {
+        logger.warn(`Fila do ID ${id} cheia, ${appended.dropped} mensagens mais antigas descartadas`, { id, id_queue });
+        queueOverflows.inc({ policy: 'drop_oldest' }, appended.dropped);
+    } else if (policy.overflow === 'flush' && policy.maxQueueMessages > 0 && count >= policy.maxQueueMessages) {
+        logger.info(`Fila do ID ${id} atingiu o limite de ${policy.maxQueueMessages} mensagens, envio antecipado`, { id, id_queue });
+        queueOverflows.inc({ policy: 'flush' });
+    }
+
+    if (count === 1) {
+        logger.info(`Nova fila criada para ID: ${id}`, { id, id_queue });
+    }
+
+    await addToHistory(storage, 'received', {
+        data: {
+            id,
+            id_queue,
+            ...message
+        }
+    });
+
+    if (hold) {
+        logger.info(`ID ${id} em hold, mensagem retida até a retomada`, { id, id_queue });
+        return appended;
+    }
+
+    // Agenda/reagenda o processamento desta fila
+    const currentQueueInfo = await getQueueInfo(storage, id);
+    if (currentQueueInfo) {
+        await scheduleQueueProcessing(storage, id, currentQueueInfo, policy);
+    }
+    logger.info(`Mensagem adicionada à fila e processamento agendado - ID: ${id}`, { id, id_queue });
+
+    return appended;
+}
+
+// Liveness: o processo está de pé; o estado do armazenamento é apenas informativo
+app.get('/healthz', async (req: express.Request, res: express.Response) => {
+    res.status(200).json({
+        status: 'ok',
+        uptime: process.uptime(),
+        storage: storage.isReady() ? 'connected' : 'disconnected'
+    });
+});
+
+// Readiness: exige armazenamento acessível; destinos fora do ar são reportados mas não
+// tiram a instância de serviço, pois as mensagens continuam enfileiradas
+app.get('/readyz', async (req: express.Request, res: express.Response) => {
+    const storageCheck = await checkStorage();
+    let destinations = {};
+    if (storageCheck.ok) {
+        try {
+            destinations = await withStorage(storage => checkDestinations(storage));
+        } catch (error) {
+            logger.warn('Erro ao verificar destinos', { error });
+        }
+    }
+
+    const ready = storageCheck.ok && !isShuttingDown;
+    res.status(ready ? 200 : 503).json({
+        status: ready ? 'ready' : 'unavailable',
+        shuttingDown: isShuttingDown,
+        storage: storageCheck,
+        destinations
+    });
+});
+
+// Endpoint para receber webhooks
+app.post('/webhook', rejectWhenShuttingDown, rateLimitByIp, verifyWebhookSignature, async (req: express.Request, res: express.Response) => {
+    logger.info('Recebendo nova requisição webhook');
+    
+    try {
+        await withStorage(async (storage) => {
+            let payload = req.body;
+
+            const sourceName = req.header(SOURCE_HEADER) || (req.query.source as string | undefined);
+            if (sourceName) {
+                const source = await getSource(storage, sourceName);
+                if (!source) {
+                    return res.status(400).json({
+                        status: 'error',
+                        message: `Fonte ${sourceName} não cadastrada`
+                    });
+                }
+                const sourceErrors = source.schema ? validatePayload(source.schema, payload) : [];
+                if (sourceErrors.length > 0) {
+                    logger.info(`Payload rejeitado pelo schema da fonte ${sourceName}`, { source: sourceName, errors: sourceErrors });
+                    return res.status(422).json({
+                        status: 'error',
+                        message: `Payload inválido para a fonte ${sourceName}`,
+                        errors: sourceErrors
+                    });
+                }
+                payload = applySourceMapping(source, payload);
+            }
+
+            // Modo legado: o campo status do corpo pausa/retoma o ID em vez de fazer parte da mensagem
+            const status = LEGACY_STATUS_FIELD ? payload?.status : undefined;
+            const isStatusCommand = status === 'paused' || status === 'online';
+
+            const errors = validatePayload(isStatusCommand ? STATUS_COMMAND_SCHEMA : MESSAGE_SCHEMA, payload);
+            if (errors.length > 0) {
+                logger.info('Payload inválido', { errors });
+                return res.status(422).json({
+                    status: 'error',
+                    message: 'Payload inválido',
+                    errors
+                });
+            }
+
+            const { id: rawId, ...messageData } = payload;
+            const id = String(rawId);
+            if (LEGACY_STATUS_FIELD) {
+                delete messageData.status;
+            }
+
+            logger.debug('Dados recebidos', { id, status, messageData });
+
+            if (isStatusCommand) {
+                logger.info(`Atualizando status para ID ${id}: ${status}`, { id });
+                if (status === 'paused') {
+                    await setStatus(storage, id, 'paused', { setBy: 'webhook' });
+                } else {
+                    await resumeQueue(storage, id, { setBy: 'webhook' });
+                }
+                await recordAudit('webhook', status === 'paused' ? 'status.pause' : 'status.resume', id);
+                return res.status(200).json({
+                    status: 'success',
+                    message: `Status do ID ${id} atualizado para ${status}`,
+                    data: { id, status }
+                });
+            }
+
+            // Modo de resposta: callback quando o lote terminar e/ou espera pela resposta dos destinos
+            const callbackUrl = req.header(CALLBACK_URL_HEADER) || (req.query.callbackUrl as string | undefined);
+            if (callbackUrl !== undefined && !isAllowedCallbackUrl(callbackUrl)) {
+                return res.status(400).json({
+                    status: 'error',
+                    message: REPLY_CALLBACK_HOSTS.length > 0
+                        ? 'URL de callback inválida ou fora de REPLY_CALLBACK_HOSTS'
+                        : 'Callbacks desativados: configure REPLY_CALLBACK_HOSTS'
+                });
+            }
+            const replyWait = getReplyWait(req);
+
+            const idempotencyKey = getIdempotencyKey(req, messageData);
+            const ingested = await ingestMessage(storage, id, messageData as WebhookMessage, idempotencyKey);
+
+            if (ingested.result === 'paused') {
+                return res.status(200).json({
+                    status: 'success',
+                    message: 'Webhook recebido mas não processado - ID está pausado',
+                    data: { id, currentStatus: 'paused', reason: ingested.statusInfo.reason, until: ingested.statusInfo.until }
+                });
+            }
+
+            if (ingested.result === 'rate_limited') {
+                return sendRateLimited(res, ingested.retryAfter, `Limite de mensagens do ID ${id} excedido`, { id });
+            }
+
+            if (ingested.result === 'queue_full') {
+                return sendRateLimited(res, ingested.retryAfter, `Fila do ID ${id} cheia, mensagem recusada`, { id, id_queue: ingested.id_queue });
+            }
+
+            if (ingested.id_queue && callbackUrl) {
+                await registerReplyCallback(storage, ingested.id_queue, callbackUrl);
+            }
+
+            const data = ingested.result === 'duplicate'
+                ? { id, id_queue: ingested.id_queue, idempotencyKey, duplicate: true }
+                : { id, id_queue: ingested.id_queue, ...messageData };
+
+            if (ingested.id_queue && replyWait > 0) {
+                const reply = await waitForReply(storage, ingested.id_queue, replyWait);
+                if (!reply) {
+                    return res.status(202).json({
+                        status: 'pending',
+                        message: 'Lote ainda não respondido pelos destinos',
+                        data
+                    });
+                }
+                return res.status(200).json({
+                    status: 'success',
+                    message: 'Lote enviado e respondido pelos destinos',
+                    data: { ...data, reply }
+                });
+            }
+
+            return res.status(200).json({
+                status: 'success',
+                message: ingested.result === 'duplicate'
+                    ? 'Webhook duplicado - já recebido anteriormente'
+                    : 'Webhook recebido com sucesso',
+                data
+            });
+        });
+    } catch (error) {
+        logger.error('Erro ao processar webhook', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao processar webhook'
+        });
+    }
+});
+
+// Enfileira as mensagens extraídas do envelope do provedor usando o id da mensagem
+// no provedor como chave de idempotência, já que os provedores reenviam em caso de falha
+function providerWebhookHandler(provider: Provider, parse: (body: any) => ProviderMessage[]) {
+    return async (req: express.Request, res: express.Response) => {
+        try {
+            const messages = parse(req.body);
+            logger.info(`Webhook ${provider} recebido com ${messages.length} mensagens`);
+
+            const results = await withStorage(async (storage) => {
+                const ingested = [];
+                for (const { id, messageId, ...messageData } of messages) {
+                    const result = await ingestMessage(storage, id, { messageId, ...messageData }, messageId);
+                    ingested.push({ id, messageId, ...result });
+                }
+                return ingested;
+            });
+
+            // O provedor reenvia o envelope inteiro; as mensagens já aceitas são descartadas
+            // na nova entrega pela chave de idempotência
+            const retryAfters = results.map(result => 'retryAfter' in result ? result.retryAfter : null).filter((value): value is number => value !== null);
+            const limited = retryAfters.length > 0;
+            if (limited) {
+                setRetryAfter(res, Math.max(...retryAfters));
+            }
+            res.status(limited ? 429 : 200).json({
+                status: limited ? 'error' : 'success',
+                data: results
+            });
+        } catch (error) {
+            logger.error(`Erro ao processar webhook ${provider}`, { error });
+            res.status(500).json({
+                status: 'error',
+                message: 'Erro ao processar webhook'
+            });
+        }
+    };
+}
+
+app.post('/webhook/telegram', rejectWhenShuttingDown, rateLimitByIp, verifyTelegramSecret, providerWebhookHandler('telegram', parseTelegramUpdate));
+
+// Handshake de verificação do WhatsApp Cloud API: devolve hub.challenge quando o token confere
+app.get('/webhook/whatsapp', (req: express.Request, res: express.Response) => {
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'];
+    const challenge = req.query['hub.challenge'];
+    const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+
+    if (mode === 'subscribe' && verifyToken && typeof token === 'string' && safeCompare(token, verifyToken)) {
+        logger.info('Webhook do WhatsApp verificado');
+        // Como texto puro, o challenge não pode ser servido como HTML refletido
+        return res.status(200).type('text/plain').send(String(challenge));
+    }
+
+    logger.info('Falha na verificação do webhook do WhatsApp');
+    res.sendStatus(403);
+});
+
+app.post('/webhook/whatsapp', rejectWhenShuttingDown, rateLimitByIp, verifyWhatsAppSignature, providerWebhookHandler('whatsapp', parseWhatsAppPayload));
+
+app.post('/webhook/evolution', rejectWhenShuttingDown, rateLimitByIp, verifyEvolutionApiKey, providerWebhookHandler('evolution', parseEvolutionPayload));
+
+// Resposta dos destinos a um lote; com ?wait=<ms> aguarda até o lote terminar
+app.get('/replies/:id_queue', rateLimitByIp, requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    const { id_queue } = req.params;
+
+    try {
+        const reply = await withStorage(storage => waitForReply(storage, id_queue, getReplyWait(req)));
+        if (!reply) {
+            return res.status(202).json({
+                status: 'pending',
+                message: 'Lote ainda não respondido pelos destinos',
+                data: { id_queue }
+            });
+        }
+        res.status(200).json({
+            status: 'success',
+            data: reply
+        });
+    } catch (error) {
+        logger.error('Erro ao consultar resposta do lote', { id_queue, error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao consultar resposta do lote'
+        });
+    }
+});
+
+// Emite o token de curta duração usado para abrir o stream de eventos
+app.post('/events/token', requireRole('viewer'), (req: express.Request, res: express.Response) => {
+    const user = API_USERS.find(candidate => candidate.name === res.locals.user.name);
+    if (!user) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Token de eventos exige uma chave de API'
+        });
+    }
+    res.status(200).json({
+        status: 'success',
+        data: createEventsToken(user)
+    });
+});
+
+// Stream SSE de eventos (received, sent, status e queue) para o dashboard.
+// Reconexões retomam a partir do Last-Event-ID (ou ?lastEventId=) enquanto o evento estiver no stream
+app.get('/events', requireEventsAccess, async (req: express.Request, res: express.Response) => {
+    let reader: EventReader | null = null;
+    try {
+        let lastId: string = req.header('last-event-id') || (req.query.lastEventId as string | undefined) || '';
+        if (!lastId) {
+            lastId = await storage.getLatestEventId();
+        }
+
+        reader = await storage.openEventReader();
+
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+        res.write(`retry: ${EVENTS_BLOCK_MS / 5}\n\n`);
+
+        let closed = false;
+        req.on('close', () => {
+            closed = true;
+        });
+
+        while (!closed && !isShuttingDown) {
+            const events = await reader.read(lastId, EVENTS_BLOCK_MS);
+            if (events.length === 0) {
+                // Comentário SSE mantém a conexão viva através de proxies
+                res.write(': ping\n\n');
+                continue;
+            }
+            for (const { id, type, data } of events) {
+                lastId = id;
+                res.write(`id: ${id}\nevent: ${type}\ndata: ${data}\n\n`);
+            }
+        }
+    } catch (error) {
+        logger.error('Erro no stream de eventos', { error });
+        if (!res.headersSent) {
+            return res.status(500).json({
+                status: 'error',
+                message: 'Erro ao abrir stream de eventos'
+            });
+        }
+    } finally {
+        if (reader) {
+            await reader.close().catch(() => undefined);
+        }
+    }
+    res.end();
+});
+
+// Métricas no formato Prometheus
+app.get('/metrics', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    try {
+        await withStorage(async (storage) => {
+            // Filas em hold não têm agendamento, mas contam como ativas
+            const ids = await storage.listQueueIds();
+            let depth = 0;
+            for (const id of ids) {
+                depth += await storage.countQueuedMessages(id);
+            }
+            activeQueues.set(ids.length);
+            queueDepth.set(depth);
+        });
+    } catch (error) {
+        // Sem armazenamento as métricas de processo continuam disponíveis
+        logger.warn('Não foi possível atualizar as métricas de fila', { error });
+    }
+
+    res.set('Content-Type', register.contentType);
+    res.send(await register.metrics());
+});
+
+// Endpoint para consultar histórico
+// Filtros: type (received|sent), id, id_queue, from, to, status, q, limit e cursor
+app.get('/history', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Consultando histórico');
+
+    const { type, id, limit, cursor } = req.query as Record<string, string | undefined>;
+
+    if (type !== undefined && type !== 'received' && type !== 'sent') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'type deve ser received ou sent'
+        });
+    }
+
+    const filter = parseHistoryFilter(req.query);
+    const pageSize = Math.min(parseInt(limit || '') || HISTORY_PAGE_SIZE, HISTORY_MAX_ENTRIES);
+    const pageCursor = cursor !== undefined ? parseInt(cursor) : undefined;
+
+    if (!filter || (pageCursor !== undefined && isNaN(pageCursor))) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Parâmetros de filtro inválidos'
+        });
+    }
+    
+    try {
+        const result = await withStorage(async (storage) => {
+            const types: HistoryType[] = type ? [type] : ['received', 'sent'];
+            const response: Record<string, any> = { cursors: {} };
+
+            for (const historyType of types) {
+                const page = await storage.queryHistory(historyType, filter, pageSize, pageCursor);
+                response[historyType] = page.items;
+                response.cursors[historyType] = page.nextCursor;
+                logger.info(`Histórico recuperado - ${historyType}: ${page.items.length}`);
+            }
+
+            if (!type) {
+                const statuses = await storage.listStatuses();
+                logger.info(`Status encontrados: ${statuses.length}`);
+                response.status = statuses
+                    .filter(entry => !id || entry.id === id)
+                    .map(({ id: statusId, status: statusInfo }) => formatStatusEntry(statusId, statusInfo));
+            }
+
+            return response;
+        });
+
+        res.json(result);
+    } catch (error) {
+        logger.error('Erro ao buscar histórico', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao buscar histórico'
+        });
+    }
+});
+
+// Endpoint para exportar o histórico em NDJSON (padrão) ou CSV, do mais antigo para o mais novo
+// Filtros: type (obrigatório), id, id_queue, from, to, status e q
+app.get('/history/export', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    const { type, format = 'ndjson' } = req.query as Record<string, string | undefined>;
+    logger.debug(`Exportando histórico ${type} em ${format}`);
+
+    if (type !== 'received' && type !== 'sent') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'type deve ser received ou sent'
+        });
+    }
+
+    if (format !== 'ndjson' && format !== 'csv') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'format deve ser ndjson ou csv'
+        });
+    }
+
+    const filter = parseHistoryFilter(req.query);
+    if (!filter) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Parâmetros de filtro inválidos'
+        });
+    }
+
+    try {
+        const items = await withStorage(storage => collectHistory(storage, type, filter));
+        const lines = format === 'csv'
+            ? [HISTORY_CSV_COLUMNS[type].join(','), ...items.map(item => toHistoryCsvRow(item, HISTORY_CSV_COLUMNS[type]))]
+            : items.map(item => JSON.stringify(item));
+
+        res.set('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+        res.set('Content-Disposition', `attachment; filename="history-${type}.${format}"`);
+        res.send(lines.length > 0 ? `${lines.join('\n')}\n` : '');
+    } catch (error) {
+        logger.error('Erro ao exportar histórico', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao exportar histórico'
+        });
+    }
+});
+
+// Endpoint para reenviar um lote registrado no histórico de envios ao destino original ou a outro
+app.post('/history/sent/:seq/replay', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const seq = parseInt(req.params.seq);
+    const { destination: destinationName } = req.body || {};
+    logger.info(`Reenviando lote ${req.params.seq} do histórico`);
+
+    if (isNaN(seq)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'seq inválido'
+        });
+    }
+
+    if (destinationName !== undefined && typeof destinationName !== 'string') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'destination deve ser um texto'
+        });
+    }
+
+    try {
+        const result = await withStorage(async (storage) => {
+            const item = await findHistoryItem(storage, 'sent', seq);
+            if (!item) {
+                return { error: 'Lote não encontrado no histórico' };
+            }
+
+            const name = destinationName || item.destination || DEFAULT_DESTINATION;
+            const destination = await findDestination(storage, name);
+            if (!destination || !destination.enabled) {
+                return { error: `Destino ${name} não encontrado ou desativado` };
+            }
+
+            const response = await redeliver(storage, destination, historyItemId(item), historyItemQueueId(item), item.data, { replayOf: seq });
+            await recordAudit(getActor(res), 'history.replay', String(seq), { destination: name, status: response.status });
+            return { destination: name, response };
+        });
+
+        if (!result.response) {
+            return res.status(404).json({
+                status: 'error',
+                message: result.error
+            });
+        }
+
+        const data = { seq, destination: result.destination, response: { status: result.response.status, data: result.response.data } };
+        if (!isSuccessStatus(result.response.status)) {
+            return res.status(502).json({
+                status: 'error',
+                message: 'Reenvio falhou',
+                data
+            });
+        }
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Lote reenviado com sucesso',
+            data
+        });
+    } catch (error) {
+        logger.error('Erro ao reenviar lote do histórico', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao reenviar lote do histórico'
+        });
+    }
+});
+
+// Endpoint para remontar um lote a partir das mensagens recebidas de um ID e enviá-lo
+// Corpo: id (obrigatório), id_queue, from, to e destination; sem destination usa o roteamento atual
+app.post('/history/rebuild', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id, id_queue, from, to, destination: destinationName } = req.body || {};
+    logger.info(`Remontando lote do ID ${id} a partir do histórico`, { id, id_queue });
+
+    if (typeof id !== 'string' || !id) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'id é obrigatório'
+        });
+    }
+
+    if (destinationName !== undefined && typeof destinationName !== 'string') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'destination deve ser um texto'
+        });
+    }
+
+    const filter = parseHistoryFilter({ id, id_queue, from, to });
+    if (!filter) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Parâmetros de filtro inválidos'
+        });
+    }
+
+    try {
+        const result = await withStorage(async (storage) => {
+            const items = await collectHistory(storage, 'received', filter);
+            if (items.length === 0) {
+                return null;
+            }
+
+            const messages: WebhookMessage[] = items.map(item => {
+                const message = { ...item.data };
+                delete message.id;
+                delete message.id_queue;
+                return message;
+            });
+            const queueInfo: QueueInfo = { id_queue: id_queue || generateQueueId(), messages };
+            const names = destinationName ? [destinationName] : await resolveDestinations(storage, id, messages[messages.length - 1]);
+            const policyRule = await findPolicyRule(storage, id);
+
+            const deliveries = [];
+            for (const name of names) {
+                const destination = await findDestination(storage, name);
+                if (!destination || !destination.enabled) {
+                    deliveries.push({ destination: name, delivered: false, error: `Destino ${name} não encontrado ou desativado` });
+                    continue;
+                }
+                const payload = buildPayload(id, queueInfo, destination, policyRule);
+                const response = await redeliver(storage, destination, id, queueInfo.id_queue, payload, { rebuilt: true });
+                deliveries.push({
+                    destination: name,
+                    delivered: isSuccessStatus(response.status),
+                    response: { status: response.status, data: response.data }
+                });
+            }
+
+            await recordAudit(getActor(res), 'history.rebuild', id, { id_queue: queueInfo.id_queue, messageCount: messages.length, destinations: names });
+            return { id, id_queue: queueInfo.id_queue, messageCount: messages.length, deliveries };
+        });
+
+        if (!result) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Nenhuma mensagem recebida encontrada para o filtro'
+            });
+        }
+
+        const delivered = result.deliveries.every(delivery => delivery.delivered);
+        res.status(delivered ? 200 : 502).json({
+            status: delivered ? 'success' : 'error',
+            message: delivered ? 'Lote remontado e enviado com sucesso' : 'Envio do lote remontado falhou em algum destino',
+            data: result
+        });
+    } catch (error) {
+        logger.error('Erro ao remontar lote do histórico', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remontar lote do histórico'
+        });
+    }
+});
+
+// Endpoint para importar mensagens em NDJSON, uma por linha, e enfileirá-las como se
+// tivessem chegado por /webhook. Aceita o export de received ou objetos { id, message, ... }
+app.post('/history/import', requireRole('admin'), express.text({ type: NDJSON_TYPES, limit: IMPORT_MAX_SIZE }), async (req: express.Request, res: express.Response) => {
+    logger.info('Importando mensagens em NDJSON');
+
+    if (typeof req.body !== 'string') {
+        return res.status(415).json({
+            status: 'error',
+            message: 'Envie o corpo como application/x-ndjson'
+        });
+    }
+
+    const lines = req.body.split(/\r?\n/);
+    const counts: Record<string, number> = {};
+    const errors: { line: number; message: string; errors?: ValidationError[] }[] = [];
+
+    try {
+        await withStorage(async (storage) => {
+            for (let index = 0; index < lines.length; index++) {
+                const line = lines[index].trim();
+                if (!line) {
+                    continue;
+                }
+
+                let entry: any;
+                try {
+                    entry = JSON.parse(line);
+                } catch {
+                    errors.push({ line: index + 1, message: 'JSON inválido' });
+                    continue;
+                }
+
+                if (entry?.destination !== undefined || entry?.response !== undefined) {
+                    errors.push({ line: index + 1, message: 'Itens do histórico de envios não podem ser importados' });
+                    continue;
+                }
+
+                // Itens exportados trazem a mensagem em data; o id_queue original não é reaproveitado
+                const payload = isPlainObject(entry?.data) && entry.timestamp ? { ...entry.data } : entry;
+                const validationErrors = validatePayload(MESSAGE_SCHEMA, payload);
+                if (validationErrors.length > 0) {
+                    errors.push({ line: index + 1, message: 'Mensagem inválida', errors: validationErrors });
+                    continue;
+                }
+
+                const { id: rawId, id_queue, ...message } = payload;
+                const ingested = await ingestMessage(storage, String(rawId), message as WebhookMessage, null);
+                counts[ingested.result] = (counts[ingested.result] || 0) + 1;
+            }
+        });
+
+        await recordAudit(getActor(res), 'history.import', '*', { counts, errors: errors.length });
+        res.status(200).json({
+            status: errors.length > 0 ? 'partial' : 'success',
+            message: `Importação concluída: ${counts.queued || 0} mensagens enfileiradas`,
+            data: { counts, errors }
+        });
+    } catch (error) {
+        logger.error('Erro ao importar mensagens', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao importar mensagens',
+            data: { counts, errors }
+        });
+    }
+});
+
+// Endpoint para consultar status de um ID
+app.get('/status/:id', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Consultando status de ID específico');
+    const { id } = req.params;
+    
+    try {
+        const statusInfo = await withStorage(async (storage) => {
+            return await getStatus(storage, id);
+        });
+
+        res.status(200).json({
+            status: 'success',
+            data: {
+                id,
+                currentStatus: statusInfo.status,
+                setAt: statusInfo.setAt,
+                setBy: statusInfo.setBy,
+                reason: statusInfo.reason,
+                until: statusInfo.until
+            }
+        });
+    } catch (error) {
+        logger.error('Erro ao buscar status', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao buscar status'
+        });
+    }
+});
+
+// Endpoint para pausar um ID
+// mode: drop descarta as mensagens recebidas, hold as retém e envia ao retomar
+app.post('/status/:id/pause', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { mode = 'drop', reason, minutes, until } = req.body || {};
+    logger.info(`Pausando ID ${id} (modo ${mode})`, { id });
+
+    if (mode !== 'drop' && mode !== 'hold') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'mode deve ser drop ou hold'
+        });
+    }
+
+    if (minutes !== undefined && (typeof minutes !== 'number' || minutes <= 0)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'minutes deve ser um número maior que zero'
+        });
+    }
+
+    if (until !== undefined && (typeof until !== 'string' || isNaN(Date.parse(until)) || Date.parse(until) <= Date.now())) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'until deve ser uma data futura no formato ISO'
+        });
+    }
+
+    const expiresAt = minutes !== undefined
+        ? new Date(Date.now() + minutes * 60000).toISOString()
+        : until !== undefined ? new Date(until).toISOString() : undefined;
+    
+    try {
+        const statusInfo = await withStorage(storage => setStatus(storage, id, mode === 'hold' ? 'hold' : 'paused', {
+            reason: typeof reason === 'string' ? reason : undefined,
+            setBy: getActor(res),
+            until: expiresAt
+        }));
+
+        await recordAudit(getActor(res), 'status.pause', id, statusInfo);
+        res.status(200).json({
+            status: 'success',
+            message: `ID ${id} pausado`,
+            data: { id, ...statusInfo }
+        });
+    } catch (error) {
+        logger.error('Erro ao pausar ID', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao pausar ID'
+        });
+    }
+});
+
+// Endpoint para retomar um ID pausado
+app.post('/status/:id/resume', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { reason } = req.body || {};
+    logger.info(`Retomando ID ${id}`, { id });
+    
+    try {
+        const statusInfo = await withStorage(storage => resumeQueue(storage, id, {
+            reason: typeof reason === 'string' ? reason : undefined,
+            setBy: getActor(res)
+        }));
+
+        await recordAudit(getActor(res), 'status.resume', id, statusInfo);
+        res.status(200).json({
+            status: 'success',
+            message: `ID ${id} retomado`,
+            data: { id, ...statusInfo }
+        });
+    } catch (error) {
+        logger.error('Erro ao retomar ID', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao retomar ID'
+        });
+    }
+});
+
+// Processa as filas vencidas sob demanda, para ambientes sem processo contínuo (ex.: Vercel Cron).
+// Aceita GET porque o Vercel Cron só faz GET, com Authorization: Bearer CRON_SECRET
+async function handleSchedulerTick(req: express.Request, res: express.Response) {
+    logger.debug('Verificação de filas vencidas sob demanda');
+    const processed = await pollDueQueues();
+    if (processed === null) {
+        return res.status(202).json({
+            status: 'success',
+            message: 'Verificação já em andamento nesta instância',
+            data: { skipped: 'busy' }
+        });
+    }
+    res.status(200).json({
+        status: 'success',
+        message: 'Filas vencidas processadas',
+        data: { processed }
+    });
+}
+
+app.get('/scheduler/tick', requireRole('admin'), handleSchedulerTick);
+app.post('/scheduler/tick', requireRole('admin'), handleSchedulerTick);
+
+// Endpoint para listar filas ativas com a quantidade de mensagens e o horário de envio agendado
+app.get('/queues', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando filas ativas');
+    
+    try {
+        const queues = await withStorage(async (storage) => {
+            // Filas em hold não têm agendamento: aparecem sem scheduledAt, depois das agendadas
+            const dueAts = new Map((await storage.listScheduledQueues()).map(({ id, dueAt }) => [id, dueAt]));
+            const ids = Array.from(new Set([...Array.from(dueAts.keys()), ...await storage.listQueueIds()]));
+            return Promise.all(ids.map(async id => {
+                const [pending, inFlight, statusInfo] = await Promise.all([getQueueInfo(storage, id), getBatch(storage, id), storage.getStatus(id)]);
+                const dueAt = dueAts.get(id);
+                return {
+                    id,
+                    id_queue: pending?.id_queue,
+                    messageCount: pending?.messages.length || 0,
+                    createdAt: pending?.createdAt ? new Date(pending.createdAt).toISOString() : undefined,
+                    status: statusInfo?.status || 'online',
+                    scheduledAt: dueAt !== undefined ? new Date(dueAt).toISOString() : undefined,
+                    inFlight: inFlight ? {
+                        id_queue: inFlight.id_queue,
+                        messageCount: inFlight.messages.length,
+                        deliveries: inFlight.deliveries
+                    } : undefined
+                };
+            }));
+        });
+
+        res.status(200).json({
+            status: 'success',
+            data: queues
+        });
+    } catch (error) {
+        logger.error('Erro ao listar filas', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar filas'
+        });
+    }
+});
+
+// Endpoint para ver as mensagens de uma fila
+app.get('/queues/:id', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    logger.debug(`Consultando fila do ID ${id}`, { id });
+    
+    try {
+        const result = await withStorage(async (storage) => {
+            const [pending, inFlight, scheduledAt] = await Promise.all([
+                getQueueInfo(storage, id),
+                getBatch(storage, id),
+                storage.getQueueSchedule(id)
+            ]);
+            return { pending, inFlight, scheduledAt };
+        });
+
+        if (!result.pending && !result.inFlight) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Fila não encontrada'
+            });
+        }
+
+        res.status(200).json({
+            status: 'success',
+            data: {
+                id,
+                scheduledAt: result.scheduledAt !== null ? new Date(result.scheduledAt).toISOString() : undefined,
+                pending: result.pending,
+                inFlight: result.inFlight
+            }
+        });
+    } catch (error) {
+        logger.error('Erro ao consultar fila', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao consultar fila'
+        });
+    }
+});
+
+// Endpoint para ver o que a fila de um ID enviaria a cada destino, sem enviar (dry-run).
+// Usa o lote aguardando nova tentativa, se houver, pois ele sai antes da fila pendente
+app.get('/queues/:id/preview', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { destination: destinationName } = req.query as Record<string, string | undefined>;
+    logger.debug(`Simulando envio da fila do ID ${id}`, { id });
+
+    try {
+        const result = await withStorage(async (storage) => {
+            const queueInfo = await getBatch(storage, id) || await getQueueInfo(storage, id);
+            if (!queueInfo) {
+                return null;
+            }
+
+            const deliveries = queueInfo.deliveries;
+            const names = destinationName
+                ? [destinationName]
+                : deliveries
+                    ? Object.keys(deliveries).filter(name => !deliveries[name].delivered)
+                    : await resolveDestinations(storage, id, queueInfo.messages[queueInfo.messages.length - 1]);
+            const policyRule = await findPolicyRule(storage, id);
+
+            const requests = [];
+            for (const name of names) {
+                const destination = await findDestination(storage, name);
+                if (!destination) {
+                    requests.push({ destination: name, error: `Destino ${name} não encontrado` });
+                    continue;
+                }
+                const payload = buildPayload(id, queueInfo, destination, policyRule);
+                const { method, headers, body } = buildRequest(payload, destination);
+                requests.push({
+                    destination: name,
+                    enabled: destination.enabled,
+                    method,
+                    url: destination.url,
+                    headers: { ...maskHeaders(destination.headers), 'Content-Type': headers['Content-Type'] },
+                    signed: !!destination.secret,
+                    timeout: destination.timeout ?? DELIVERY_TIMEOUT,
+                    payload,
+                    body
+                });
+            }
+            return { id, id_queue: queueInfo.id_queue, messageCount: queueInfo.messages.length, requests };
+        });
+
+        if (!result) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Fila não encontrada'
+            });
+        }
+
+        res.status(200).json({
+            status: 'success',
+            data: result
+        });
+    } catch (error) {
+        logger.error('Erro ao simular envio da fila', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao simular envio da fila'
+        });
+    }
+});
+
+// Endpoint para enviar uma fila imediatamente
+app.post('/queues/:id/flush', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    logger.info(`Envio manual da fila do ID ${id}`, { id });
+    
+    try {
+        const result = await withStorage(async (storage) => {
+            const token = await acquireQueueLock(storage, id);
+            if (!token) {
+                return 'locked';
+            }
+            try {
+                const [pending, inFlight] = await Promise.all([getQueueInfo(storage, id), getBatch(storage, id)]);
+                if (!pending && !inFlight) {
+                    return 'empty';
+                }
+                await sendAggregatedWebhook(storage, id, 'manual');
+                return 'sent';
+            } finally {
+                await releaseQueueLock(storage, id, token);
+            }
+        });
+
+        if (result === 'locked') {
+            return res.status(409).json({
+                status: 'error',
+                message: 'Fila já está sendo enviada'
+            });
+        }
+
+        if (result === 'empty') {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Fila não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'queue.flush', id);
+        res.status(200).json({
+            status: 'success',
+            message: `Fila do ID ${id} enviada`
+        });
+    } catch (error) {
+        logger.error('Erro ao enviar fila manualmente', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao enviar fila'
+        });
+    }
+});
+
+// Endpoint para descartar a fila de um ID, incluindo o lote aguardando nova tentativa
+app.delete('/queues/:id', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    logger.info(`Descartando fila do ID ${id}`, { id });
+    
+    try {
+        const result = await withStorage(async (storage) => {
+            // Com o lote em envio, o envio terminaria depois do descarte e recriaria o agendamento
+            const token = await acquireQueueLock(storage, id);
+            if (!token) {
+                return 'locked';
+            }
+            try {
+                const deleted = await storage.deleteQueue(id);
+                if (deleted) {
+                    await publishEvent(storage, 'queue', { id, action: 'deleted' });
+                }
+                return deleted ? 'deleted' : 'empty';
+            } finally {
+                await releaseQueueLock(storage, id, token);
+            }
+        });
+
+        if (result === 'locked') {
+            return res.status(409).json({
+                status: 'error',
+                message: `Fila do ID ${id} está em envio; tente novamente em instantes`
+            });
+        }
+
+        if (result === 'empty') {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Fila não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'queue.delete', id);
+        res.status(200).json({
+            status: 'success',
+            message: `Fila do ID ${id} descartada`
+        });
+    } catch (error) {
+        logger.error('Erro ao descartar fila', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao descartar fila'
+        });
+    }
+});
+
+// Endpoint para remover uma mensagem da fila pendente pela posição (começando em 0)
+app.delete('/queues/:id/messages/:index', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const index = parseInt(req.params.index);
+    logger.info(`Removendo mensagem ${req.params.index} da fila do ID ${id}`, { id });
+
+    if (isNaN(index) || index < 0) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Posição da mensagem inválida'
+        });
+    }
+    
+    try {
+        const removed = await withStorage(storage => storage.removeQueueMessage(id, index));
+
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Mensagem não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'queue.message.delete', id, { index });
+        res.status(200).json({
+            status: 'success',
+            message: 'Mensagem removida da fila',
+            data: removed
+        });
+    } catch (error) {
+        logger.error('Erro ao remover mensagem da fila', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remover mensagem da fila'
+        });
+    }
+});
+
+// Endpoint para listar lotes na dead-letter
+app.get('/dead-letters', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando dead-letters');
+    
+    try {
+        const entries = await withStorage(storage => storage.listDeadLetters());
+
+        res.status(200).json({
+            status: 'success',
+            data: entries.map(({ deadLetterId, id, id_queue, destination, url, attempts, lastResponse, failedAt, messages }) => ({
+                deadLetterId,
+                id,
+                id_queue,
+                destination,
+                url,
+                attempts,
+                lastStatus: lastResponse.status,
+                messageCount: messages.length,
+                failedAt
+            }))
+        });
+    } catch (error) {
+        logger.error('Erro ao listar dead-letters', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar dead-letters'
+        });
+    }
+});
+
+// Endpoint para inspecionar um lote na dead-letter
+app.get('/dead-letters/:deadLetterId', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    const { deadLetterId } = req.params;
+    logger.debug(`Consultando dead-letter ${deadLetterId}`);
+    
+    try {
+        const entry = await withStorage(storage => storage.getDeadLetter(deadLetterId));
+        if (!entry) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Lote não encontrado na dead-letter'
+            });
+        }
+
+        res.status(200).json({
+            status: 'success',
+            data: entry
+        });
+    } catch (error) {
+        logger.error('Erro ao consultar dead-letter', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao consultar dead-letter'
+        });
+    }
+});
+
+// Endpoint para reenviar um lote da dead-letter
+app.post('/dead-letters/:deadLetterId/replay', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { deadLetterId } = req.params;
+    logger.info(`Reenviando dead-letter ${deadLetterId}`);
+    
+    try {
+        const result = await withStorage(async (storage) => {
+            const entry = await storage.getDeadLetter(deadLetterId);
+            if (!entry) {
+                return null;
+            }
+
+            // Usa a URL atual do destino, caso tenha sido corrigida depois da falha
+            const destination = await findDestination(storage, entry.destination);
+            const response = await postWebhook(destination?.url || entry.url, entry.payload, destination || {});
+            await addToHistory(storage, 'sent', {
+                id: entry.id,
+                id_queue: entry.id_queue,
+                data: entry.payload,
+                destination: entry.destination,
+                replay: true,
+                response: {
+                    status: response.status,
+                    data: response.data
+                }
+            });
+
+            await recordAudit(getActor(res), 'deadletter.replay', deadLetterId, { status: response.status });
+
+            if (isSuccessStatus(response.status)) {
+                await storage.removeDeadLetter(deadLetterId);
+            } else {
+                entry.attempts += 1;
+                entry.lastResponse = { status: response.status, data: response.data };
+                await storage.saveDeadLetter(entry);
+            }
+            return response;
+        });
+
+        if (!result) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Lote não encontrado na dead-letter'
+            });
+        }
+
+        if (!isSuccessStatus(result.status)) {
+            return res.status(502).json({
+                status: 'error',
+                message: 'Reenvio falhou, lote mantido na dead-letter',
+                data: { deadLetterId, response: { status: result.status, data: result.data } }
+            });
+        }
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Lote reenviado com sucesso',
+            data: { deadLetterId, response: { status: result.status, data: result.data } }
+        });
+    } catch (error) {
+        logger.error('Erro ao reenviar dead-letter', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao reenviar dead-letter'
+        });
+    }
+});
+
+// Endpoint para descartar um lote da dead-letter
+app.delete('/dead-letters/:deadLetterId', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { deadLetterId } = req.params;
+    logger.info(`Descartando dead-letter ${deadLetterId}`);
+    
+    try {
+        const removed = await withStorage(storage => storage.removeDeadLetter(deadLetterId));
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Lote não encontrado na dead-letter'
+            });
+        }
+
+        await recordAudit(getActor(res), 'deadletter.discard', deadLetterId);
+        res.status(200).json({
+            status: 'success',
+            message: 'Lote descartado com sucesso'
+        });
+    } catch (error) {
+        logger.error('Erro ao descartar dead-letter', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao descartar dead-letter'
+        });
+    }
+});
+
+// Endpoint para listar destinos
+app.get('/destinations', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando destinos');
+    
+    try {
+        const destinations = await withStorage(storage => getDestinations(storage));
+        res.status(200).json({
+            status: 'success',
+            data: destinations.map(maskDestination)
+        });
+    } catch (error) {
+        logger.error('Erro ao listar destinos', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar destinos'
+        });
+    }
+});
+
+// Endpoint para criar ou atualizar um destino
+app.put('/destinations/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    const { url, enabled = true, aggregation, secret, maxConcurrency, maxPerMinute } = req.body;
+    logger.info(`Salvando destino ${name}`);
+
+    if (!NAME_PATTERN.test(name)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Nome do destino deve conter apenas letras, números, _ ou -'
+        });
+    }
+
+    if (!isValidUrl(url)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'URL do destino inválida'
+        });
+    }
+
+    if (secret !== undefined && secret !== null && (typeof secret !== 'string' || secret.length === 0)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'secret deve ser um texto não vazio ou null'
+        });
+    }
+
+    for (const [field, value] of Object.entries({ maxConcurrency, maxPerMinute })) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+            return res.status(400).json({
+                status: 'error',
+                message: `${field} deve ser um inteiro maior ou igual a zero`
+            });
+        }
+    }
+    
+    const parsedAggregation = aggregation === undefined ? {} : parseAggregationConfig(aggregation);
+    if (parsedAggregation.error) {
+        return res.status(400).json({
+            status: 'error',
+            message: parsedAggregation.error
+        });
+    }
+
+    // headers: null remove os cabeçalhos salvos
+    const { options, error } = parseDeliveryOptions({ ...req.body, headers: req.body.headers ?? undefined });
+    if (!options) {
+        return res.status(400).json({
+            status: 'error',
+            message: error
+        });
+    }
+    
+    try {
+        const destination = await withStorage(async (storage) => {
+            // Os valores de secret e headers não são devolvidos pela API; omitidos, os salvos são mantidos
+            const existing = await storage.getConfig<Destination>('destinations', name);
+            const saved: Destination = {
+                name,
+                url,
+                enabled: enabled !== false,
+                aggregation: parsedAggregation.aggregation,
+                maxConcurrency,
+                maxPerMinute,
+                ...options,
+                secret: secret === undefined ? existing?.secret : secret ?? undefined,
+                headers: req.body.headers === undefined ? existing?.headers : options.headers
+            };
+            await storage.saveConfig('destinations', name, saved);
+            return saved;
+        });
+        await recordAudit(getActor(res), 'destination.save', name, maskDestination(destination));
+        res.status(200).json({
+            status: 'success',
+            message: `Destino ${name} salvo com sucesso`,
+            data: maskDestination(destination)
+        });
+    } catch (error) {
+        logger.error('Erro ao salvar destino', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao salvar destino'
+        });
+    }
+});
+
+// Endpoint para remover um destino
+app.delete('/destinations/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    logger.info(`Removendo destino ${name}`);
+    
+    try {
+        const removed = await withStorage(storage => storage.deleteConfig('destinations', name));
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Destino não encontrado'
+            });
+        }
+
+        await recordAudit(getActor(res), 'destination.delete', name);
+        res.status(200).json({
+            status: 'success',
+            message: `Destino ${name} removido com sucesso`
+        });
+    } catch (error) {
+        logger.error('Erro ao remover destino', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remover destino'
+        });
+    }
+});
+
+// Endpoint para listar regras de roteamento
+app.get('/routes', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando regras de roteamento');
+    
+    try {
+        const rules = await withStorage(storage => getRoutingRules(storage));
+        res.status(200).json({
+            status: 'success',
+            data: rules
+        });
+    } catch (error) {
+        logger.error('Erro ao listar regras de roteamento', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar regras de roteamento'
+        });
+    }
+});
+
+// Endpoint para criar ou atualizar uma regra de roteamento
+app.put('/routes/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    const { idPattern, match, destinations, policy } = req.body;
+    logger.info(`Salvando regra de roteamento ${name}`);
+
+    if (!NAME_PATTERN.test(name)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Nome da regra deve conter apenas letras, números, _ ou -'
+        });
+    }
+
+    if (!Array.isArray(destinations) || destinations.length === 0 || !destinations.every(d => typeof d === 'string')) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'A regra precisa de uma lista de destinos'
+        });
+    }
+
+    if (idPattern !== undefined && typeof idPattern !== 'string') {
+        return res.status(400).json({
+            status: 'error',
+            message: 'idPattern deve ser um texto'
+        });
+    }
+
+    if (match !== undefined && (typeof match !== 'object' || match === null || Array.isArray(match))) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'match deve ser um objeto de campo para valor'
+        });
+    }
+    
+    const parsedPolicy = policy === undefined ? {} : parseFlushPolicy(policy);
+    if (parsedPolicy.error) {
+        return res.status(400).json({
+            status: 'error',
+            message: parsedPolicy.error
+        });
+    }
+    
+    try {
+        const rule: RoutingRule = { name, idPattern, match, destinations, policy: parsedPolicy.policy };
+        await withStorage(storage => storage.saveConfig('routes', name, rule));
+        await recordAudit(getActor(res), 'route.save', name, rule);
+        res.status(200).json({
+            status: 'success',
+            message: `Regra ${name} salva com sucesso`,
+            data: rule
+        });
+    } catch (error) {
+        logger.error('Erro ao salvar regra de roteamento', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao salvar regra de roteamento'
+        });
+    }
+});
+
+// Endpoint para remover uma regra de roteamento
+app.delete('/routes/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    logger.info(`Removendo regra de roteamento ${name}`);
+    
+    try {
+        const removed = await withStorage(storage => storage.deleteConfig('routes', name));
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Regra não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'route.delete', name);
+        res.status(200).json({
+            status: 'success',
+            message: `Regra ${name} removida com sucesso`
+        });
+    } catch (error) {
+        logger.error('Erro ao remover regra de roteamento', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remover regra de roteamento'
+        });
+    }
+});
+
+// Endpoint para listar políticas de agregação
+app.get('/policies', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando políticas de agregação');
+    
+    try {
+        const policies = await withStorage(storage => storage.listConfig<PolicyRule>('policies'));
+
+        res.status(200).json({
+            status: 'success',
+            data: {
+                defaults: {
+                    debounceMs: AGGREGATION_WINDOW,
+                    maxWaitMs: AGGREGATION_MAX_WAIT,
+                    maxMessages: AGGREGATION_MAX_MESSAGES,
+                    maxBytes: AGGREGATION_MAX_BYTES,
+                    maxQueueMessages: QUEUE_MAX_MESSAGES,
+                    overflow: QUEUE_OVERFLOW_POLICY,
+                    aggregation: { strategy: AGGREGATION_STRATEGY }
+                },
+                policies
+            }
+        });
+    } catch (error) {
+        logger.error('Erro ao listar políticas', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar políticas'
+        });
+    }
+});
+
+// Endpoint para criar ou atualizar a política de um ID ou padrão de IDs (ex.: 5511*)
+app.put('/policies/:pattern', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { pattern } = req.params;
+    logger.info(`Salvando política de agregação para ${pattern}`);
+
+    const { policy, error } = parseFlushPolicy(req.body);
+    const parsedAggregation = req.body?.aggregation === undefined ? {} : parseAggregationConfig(req.body.aggregation);
+    if (error || parsedAggregation.error) {
+        return res.status(400).json({
+            status: 'error',
+            message: error || parsedAggregation.error
+        });
+    }
+    
+    try {
+        const rule: PolicyRule = { pattern, ...policy, aggregation: parsedAggregation.aggregation };
+        await withStorage(storage => storage.saveConfig('policies', pattern, rule));
+        await recordAudit(getActor(res), 'policy.save', pattern, rule);
+        res.status(200).json({
+            status: 'success',
+            message: `Política para ${pattern} salva com sucesso`,
+            data: rule
+        });
+    } catch (error) {
+        logger.error('Erro ao salvar política', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao salvar política'
+        });
+    }
+});
+
+// Endpoint para remover uma política de agregação
+app.delete('/policies/:pattern', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { pattern } = req.params;
+    logger.info(`Removendo política de agregação para ${pattern}`);
+    
+    try {
+        const removed = await withStorage(storage => storage.deleteConfig('policies', pattern));
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Política não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'policy.delete', pattern);
+        res.status(200).json({
+            status: 'success',
+            message: `Política para ${pattern} removida com sucesso`
+        });
+    } catch (error) {
+        logger.error('Erro ao remover política', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remover política'
+        });
+    }
+});
+
+// Endpoint para listar as fontes de webhook
+app.get('/sources', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando fontes de webhook');
+
+    try {
+        const sources = await withStorage(storage => storage.listConfig<WebhookSource>('sources'));
+        res.status(200).json({
+            status: 'success',
+            data: sources
+        });
+    } catch (error) {
+        logger.error('Erro ao listar fontes', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar fontes'
+        });
+    }
+});
+
+// Endpoint para criar ou atualizar uma fonte (schema e mapeamento do payload)
+app.put('/sources/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    logger.info(`Salvando fonte ${name}`);
+
+    if (!NAME_PATTERN.test(name)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Nome da fonte deve conter apenas letras, números, _ ou -'
+        });
+    }
+
+    const { source, error } = parseSource(name, req.body);
+    if (!source) {
+        return res.status(400).json({
+            status: 'error',
+            message: error
+        });
+    }
+
+    try {
+        await withStorage(storage => storage.saveConfig('sources', name, source));
+        await recordAudit(getActor(res), 'source.save', name, source);
+        res.status(200).json({
+            status: 'success',
+            message: `Fonte ${name} salva com sucesso`,
+            data: source
+        });
+    } catch (error) {
+        logger.error('Erro ao salvar fonte', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao salvar fonte'
+        });
+    }
+});
+
+// Endpoint para remover uma fonte
+app.delete('/sources/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    logger.info(`Removendo fonte ${name}`);
+
+    try {
+        const removed = await withStorage(storage => storage.deleteConfig('sources', name));
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Fonte não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'source.delete', name);
+        res.status(200).json({
+            status: 'success',
+            message: `Fonte ${name} removida com sucesso`
+        });
+    } catch (error) {
+        logger.error('Erro ao remover fonte', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remover fonte'
+        });
+    }
+});
+
+// Endpoint para listar as regras de mascaramento do histórico
+app.get('/redactions', requireRole('viewer'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Listando regras de mascaramento');
+
+    try {
+        const rules = await withStorage(storage => storage.listConfig<RedactionRule>('redactions'));
+        res.status(200).json({
+            status: 'success',
+            data: rules
+        });
+    } catch (error) {
+        logger.error('Erro ao listar regras de mascaramento', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao listar regras de mascaramento'
+        });
+    }
+});
+
+// Endpoint para criar ou atualizar uma regra de mascaramento (field ou pattern)
+app.put('/redactions/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    logger.info(`Salvando regra de mascaramento ${name}`);
+
+    if (!NAME_PATTERN.test(name)) {
+        return res.status(400).json({
+            status: 'error',
+            message: 'Nome da regra deve conter apenas letras, números, _ ou -'
+        });
+    }
+
+    const { rule, error } = parseRedactionRule(name, req.body);
+    if (!rule) {
+        return res.status(400).json({
+            status: 'error',
+            message: error
+        });
+    }
+
+    try {
+        await withStorage(storage => storage.saveConfig('redactions', name, rule));
+        await recordAudit(getActor(res), 'redaction.save', name, rule);
+        res.status(200).json({
+            status: 'success',
+            message: `Regra de mascaramento ${name} salva com sucesso`,
+            data: rule
+        });
+    } catch (error) {
+        logger.error('Erro ao salvar regra de mascaramento', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao salvar regra de mascaramento'
+        });
+    }
+});
+
+// Endpoint para remover uma regra de mascaramento
+app.delete('/redactions/:name', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    logger.info(`Removendo regra de mascaramento ${name}`);
+
+    try {
+        const removed = await withStorage(storage => storage.deleteConfig('redactions', name));
+        if (!removed) {
+            return res.status(404).json({
+                status: 'error',
+                message: 'Regra de mascaramento não encontrada'
+            });
+        }
+
+        await recordAudit(getActor(res), 'redaction.delete', name);
+        res.status(200).json({
+            status: 'success',
+            message: `Regra de mascaramento ${name} removida com sucesso`
+        });
+    } catch (error) {
+        logger.error('Erro ao remover regra de mascaramento', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao remover regra de mascaramento'
+        });
+    }
+});
+
+// Endpoint para apagar todos os dados de um ID (pedidos de exclusão LGPD/GDPR): fila e lote,
+// status, itens do histórico, dead letters e eventos do dashboard. A auditoria registra o pedido
+app.delete('/ids/:id', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    logger.info(`Apagando dados do ID ${id}`, { id });
+
+    try {
+        const erased = await withStorage(async (storage) => {
+            // Com o lote em envio, o histórico do envio seria gravado depois do apagamento
+            const token = await acquireQueueLock(storage, id);
+            if (!token) {
+                return null;
+            }
+
+            try {
+                const queue = await storage.deleteQueue(id);
+                const status = await storage.deleteStatus(id);
+                const received = await storage.eraseHistory('received', id);
+                const sent = await storage.eraseHistory('sent', id);
+                let deadLetters = 0;
+                for (const entry of await storage.listDeadLetters()) {
+                    if (entry.id === id && await storage.removeDeadLetter(entry.deadLetterId)) {
+                        deadLetters++;
+                    }
+                }
+                const events = await storage.eraseEvents(id);
+                const replies = await storage.eraseReplies(id);
+                const audit = await storage.eraseAuditEntries(id);
+                const rateLimit = await storage.deleteCounter(`id:${id}`);
+                return { queue, status, history: { received, sent }, deadLetters, events, replies, audit, rateLimit };
+            } finally {
+                await releaseQueueLock(storage, id, token);
+            }
+        });
+
+        if (!erased) {
+            return res.status(409).json({
+                status: 'error',
+                message: `Fila do ID ${id} está em envio; tente novamente em instantes`
+            });
+        }
+
+        historyRemoved.inc({ reason: 'erasure' }, erased.history.received + erased.history.sent);
+        // O próprio pedido fica na auditoria só com o hash do ID
+        await recordAudit(getActor(res), 'id.erase', hashId(id), erased);
+        res.status(200).json({
+            status: 'success',
+            message: `Dados do ID ${id} apagados`,
+            data: erased
+        });
+    } catch (error) {
+        logger.error('Erro ao apagar dados do ID', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao apagar dados do ID'
+        });
+    }
+});
+
+// Endpoint para consultar o log de auditoria
+app.get('/audit', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    logger.debug('Consultando log de auditoria');
+    
+    try {
+        const entries = await withStorage(storage => storage.listAuditEntries());
+        res.status(200).json({
+            status: 'success',
+            data: entries
+        });
+    } catch (error) {
+        logger.error('Erro ao consultar auditoria', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao consultar auditoria'
+        });
+    }
+});
+
+// Endpoint para limpar logs
+app.post('/clear-logs', requireRole('admin'), async (req: express.Request, res: express.Response) => {
+    logger.info('Iniciando limpeza de logs');
+    
+    try {
+        await withStorage(storage => storage.clearAll());
+
+        await recordAudit(getActor(res), 'logs.clear', '*');
+        logger.info('Logs limpos com sucesso');
+        res.status(200).json({
+            status: 'success',
+            message: 'Histórico limpo com sucesso'
+        });
+    } catch (error) {
+        logger.error('Erro ao limpar logs', { error });
+        res.status(500).json({
+            status: 'error',
+            message: 'Erro ao limpar logs'
+        });
+    }
+});
+
+// Conecta o armazenamento e inicia o agendador. Sem o armazenamento a instância segue no ar:
+// /readyz responde 503 e o agendador volta a tentar a cada ciclo até a conexão voltar
+export async function start(): Promise<void> {
+    try {
+        await storage.connect();
+        logger.info(`Armazenamento ${storage.backend} inicializado com sucesso`);
+
+        await recoverPendingQueues(storage);
+    } catch (error) {
+        logger.error('Erro ao inicializar o armazenamento', { error });
+    }
+    startScheduler();
+}
+
+// Desligamento gracioso: para de aceitar webhooks, espera o envio em andamento e
+// envia (SHUTDOWN_MODE=flush) ou deixa armazenadas (handoff) as filas pendentes
+export async function stop(deadline: number): Promise<void> {
+    isShuttingDown = true;
+    logger.info(`Iniciando desligamento (modo ${SHUTDOWN_MODE})`);
+    stopScheduler();
+
+    while (isPolling && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    try {
+        if (SHUTDOWN_MODE === 'flush') {
+            await flushQueuesForShutdown(storage, deadline);
+        }
+        const pending = await storage.listScheduledQueues();
+        logger.info(`Filas mantidas no armazenamento ${storage.backend}: ${pending.length}`);
+        await storage.close();
+        logger.info('Armazenamento fechado com sucesso');
+    } catch (error) {
+        logger.error('Erro ao finalizar filas no desligamento', { error });
+    }
+}
@@ -0,0 +1,58 @@
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40
+};
+
+// Lido a cada chamada para respeitar o LOG_LEVEL carregado pelo dotenv depois dos imports
+function currentLevel(): number {
+    const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+    return LEVELS[level] ?? LEVELS.info;
+}
+
+function serializeError(error: any) {
+    return {
+        message: error.message,
+        code: error.code,
+        stack: error.stack
+    };
+}
+
+// Erros viram objetos simples para não se perderem no JSON.stringify
+function serializeFields(fields: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(fields)) {
+        result[key] = value instanceof Error ? serializeError(value) : value;
+    }
+    return result;
+}
+
+// Uma linha JSON por evento; id e id_queue são usados como campos de correlação
+function write(level: LogLevel, msg: string, fields: Record<string, any> = {}) {
+    if (LEVELS[level] < currentLevel()) {
+        return;
+    }
+
+    const line = JSON.stringify({
+        level,
+        time: new Date().toISOString(),
+        msg,
+        ...serializeFields(fields)
+    });
+
+    if (level === 'error' || level === 'warn') {
+        process.stderr.write(line + '\n');
+    } else {
+        process.stdout.write(line + '\n');
+    }
+}
+
+export const logger = {
+    debug: (msg: string, fields?: Record<string, any>) => write('debug', msg, fields),
+    info: (msg: string, fields?: Record<string, any>) => write('info', msg, fields),
+    warn: (msg: string, fields?: Record<string, any>) => write('warn', msg, fields),
+    error: (msg: string, fields?: Record<string, any>) => write('error', msg, fields)
+};
@@ -0,0 +1,98 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const register = new Registry();
+
+collectDefaultMetrics({ register });
+
+// result: queued, held, duplicate, paused, rate_limited ou queue_full
+export const messagesReceived = new Counter({
+    name: 'webhook_messages_received_total',
+    help: 'Mensagens recebidas em /webhook',
+    labelNames: ['result'],
+    registers: [register]
+});
+
+export const batchesFlushed = new Counter({
+    name: 'webhook_batches_flushed_total',
+    help: 'Lotes enviados, por motivo do envio',
+    labelNames: ['reason'],
+    registers: [register]
+});
+
+// status 0 indica erro de rede ou timeout
+export const deliveries = new Counter({
+    name: 'webhook_deliveries_total',
+    help: 'Tentativas de entrega por destino e status HTTP',
+    labelNames: ['destination', 'status'],
+    registers: [register]
+});
+
+export const deliveryDuration = new Histogram({
+    name: 'webhook_delivery_duration_seconds',
+    help: 'Latência das entregas aos destinos',
+    labelNames: ['destination', 'status'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [register]
+});
+
+export const deliveryRetries = new Counter({
+    name: 'webhook_delivery_retries_total',
+    help: 'Novas tentativas agendadas após falha temporária',
+    labelNames: ['destination'],
+    registers: [register]
+});
+
+export const deadLetters = new Counter({
+    name: 'webhook_dead_letters_total',
+    help: 'Lotes movidos para a dead-letter',
+    labelNames: ['destination'],
+    registers: [register]
+});
+
+// Envios adiados por limite de concorrência ou de taxa do destino
+export const deliveriesThrottled = new Counter({
+    name: 'webhook_deliveries_throttled_total',
+    help: 'Entregas adiadas pelo limite de concorrência ou de taxa do destino',
+    labelNames: ['destination', 'limit'],
+    registers: [register]
+});
+
+// scope: ip ou id
+export const rateLimited = new Counter({
+    name: 'webhook_rate_limited_total',
+    help: 'Requisições recusadas com 429 pelo limite de entrada',
+    labelNames: ['scope'],
+    registers: [register]
+});
+
+export const queueOverflows = new Counter({
+    name: 'webhook_queue_overflows_total',
+    help: 'Mensagens que atingiram o limite da fila, por política aplicada',
+    labelNames: ['policy'],
+    registers: [register]
+});
+
+export const historyRemoved = new Counter({
+    name: 'webhook_history_removed_total',
+    help: 'Itens removidos do histórico por retenção ou apagamento de ID',
+    labelNames: ['reason'],
+    registers: [register]
+});
+
+export const queueDepth = new Gauge({
+    name: 'webhook_queue_depth',
+    help: 'Mensagens aguardando envio em todas as filas',
+    registers: [register]
+});
+
+export const activeQueues = new Gauge({
+    name: 'webhook_active_queues',
+    help: 'Filas com mensagens pendentes ou lote em envio, incluindo as retidas em hold',
+    registers: [register]
+});
+
+export const storageErrors = new Counter({
+    name: 'webhook_storage_errors_total',
+    help: 'Erros nas operações de armazenamento (Redis ou memória)',
+    registers: [register]
+});
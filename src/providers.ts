@@ -0,0 +1,186 @@
+// Tradução dos envelopes de cada provedor para o formato { id, message, ... } da fila
+
+export type Provider = 'telegram' | 'whatsapp' | 'evolution';
+
+export interface MediaInfo {
+    type: string;
+    fileId?: string;
+    url?: string;
+    mimeType?: string;
+    fileName?: string;
+}
+
+export interface ProviderMessage {
+    id: string;
+    // Id da mensagem no provedor, usado como chave de idempotência contra reenvios
+    messageId: string;
+    message: string;
+    provider: Provider;
+    from?: string;
+    name?: string;
+    media?: MediaInfo;
+}
+
+// Mídia sem legenda vira um marcador para que a concatenação não fique com texto vazio
+function mediaText(media: MediaInfo, caption?: string): string {
+    return caption || `[${media.type}]`;
+}
+
+const TELEGRAM_MEDIA_TYPES = ['document', 'audio', 'voice', 'video', 'video_note', 'animation', 'sticker'];
+
+export function parseTelegramUpdate(update: any): ProviderMessage[] {
+    const message = update?.message || update?.edited_message || update?.channel_post || update?.edited_channel_post;
+    if (!message?.chat) {
+        return [];
+    }
+
+    const base = {
+        id: String(message.chat.id),
+        messageId: `${update.update_id ?? message.message_id}`,
+        provider: 'telegram' as const,
+        from: message.from ? String(message.from.id) : undefined,
+        name: message.from ? [message.from.first_name, message.from.last_name].filter(Boolean).join(' ') : message.chat.title
+    };
+
+    if (typeof message.text === 'string') {
+        return [{ ...base, message: message.text }];
+    }
+
+    let media: MediaInfo | undefined;
+    if (Array.isArray(message.photo) && message.photo.length > 0) {
+        // Os tamanhos vêm em ordem crescente; o último é o original
+        media = { type: 'photo', fileId: message.photo[message.photo.length - 1].file_id };
+    } else {
+        const type = TELEGRAM_MEDIA_TYPES.find(candidate => message[candidate]);
+        if (type) {
+            const file = message[type];
+            media = { type, fileId: file.file_id, mimeType: file.mime_type, fileName: file.file_name };
+        }
+    }
+
+    if (media) {
+        return [{ ...base, message: mediaText(media, message.caption), media }];
+    }
+    if (message.location) {
+        return [{ ...base, message: `[location] ${message.location.latitude},${message.location.longitude}` }];
+    }
+    return [];
+}
+
+const WHATSAPP_MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+
+function whatsAppText(message: any): string | undefined {
+    switch (message.type) {
+        case 'text':
+            return message.text?.body;
+        case 'button':
+            return message.button?.text;
+        case 'interactive':
+            return message.interactive?.button_reply?.title || message.interactive?.list_reply?.title;
+        case 'reaction':
+            return message.reaction?.emoji;
+        case 'location':
+            return `[location] ${message.location?.latitude},${message.location?.longitude}`;
+        default:
+            return undefined;
+    }
+}
+
+// WhatsApp Cloud API: um POST pode trazer várias mensagens em entry[].changes[].value.messages[];
+// atualizações de status de entrega (value.statuses) são ignoradas
+export function parseWhatsAppPayload(body: any): ProviderMessage[] {
+    const result: ProviderMessage[] = [];
+
+    for (const entry of body?.entry || []) {
+        for (const change of entry?.changes || []) {
+            const value = change?.value;
+            const contacts: any[] = value?.contacts || [];
+
+            for (const message of value?.messages || []) {
+                const contact = contacts.find(candidate => candidate.wa_id === message.from);
+                const base = {
+                    id: String(message.from),
+                    messageId: String(message.id),
+                    provider: 'whatsapp' as const,
+                    from: String(message.from),
+                    name: contact?.profile?.name
+                };
+
+                if (WHATSAPP_MEDIA_TYPES.includes(message.type)) {
+                    const file = message[message.type] || {};
+                    const media: MediaInfo = {
+                        type: message.type,
+                        fileId: file.id,
+                        mimeType: file.mime_type,
+                        fileName: file.filename
+                    };
+                    result.push({ ...base, message: mediaText(media, file.caption), media });
+                    continue;
+                }
+
+                const text = whatsAppText(message);
+                if (text !== undefined) {
+                    result.push({ ...base, message: text });
+                }
+            }
+        }
+    }
+
+    return result;
+}
+
+const EVOLUTION_MEDIA_TYPES: Record<string, string> = {
+    imageMessage: 'image',
+    videoMessage: 'video',
+    audioMessage: 'audio',
+    documentMessage: 'document',
+    stickerMessage: 'sticker'
+};
+
+// Evolution API: evento messages.upsert (ou MESSAGES_UPSERT); mensagens enviadas pela
+// própria instância (fromMe) não entram na fila
+export function parseEvolutionPayload(body: any): ProviderMessage[] {
+    const event = String(body?.event || '').toLowerCase().replace('_', '.');
+    if (event !== 'messages.upsert') {
+        return [];
+    }
+
+    const items: any[] = Array.isArray(body.data) ? body.data : [body.data];
+    const result: ProviderMessage[] = [];
+
+    for (const data of items) {
+        const key = data?.key;
+        const content = data?.message;
+        if (!key?.remoteJid || key.fromMe || !content) {
+            continue;
+        }
+
+        const base = {
+            id: String(key.remoteJid).split('@')[0],
+            messageId: String(key.id),
+            provider: 'evolution' as const,
+            from: key.participant ? String(key.participant).split('@')[0] : String(key.remoteJid).split('@')[0],
+            name: data.pushName
+        };
+
+        const text = content.conversation || content.extendedTextMessage?.text;
+        if (text) {
+            result.push({ ...base, message: text });
+            continue;
+        }
+
+        const mediaKey = Object.keys(EVOLUTION_MEDIA_TYPES).find(candidate => content[candidate]);
+        if (mediaKey) {
+            const file = content[mediaKey];
+            const media: MediaInfo = {
+                type: EVOLUTION_MEDIA_TYPES[mediaKey],
+                url: file.url,
+                mimeType: file.mimetype,
+                fileName: file.fileName
+            };
+            result.push({ ...base, message: mediaText(media, file.caption), media });
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,43 @@
+import { HistoryFilter, HistoryItem } from './types';
+
+export function generateQueueId(): string {
+    return Math.random().toString(36).substring(2, 15);
+}
+
+// Envios e eventos de status e de fila trazem o ID no próprio objeto; mensagens recebidas, em data
+export function mentionsId(value: any, id: string): boolean {
+    return String(value?.data?.id) === id || String(value?.id) === id;
+}
+
+export function historyItemId(item: HistoryItem): string | undefined {
+    const id = item.id ?? item.data?.id;
+    return id === undefined ? undefined : String(id);
+}
+
+export function historyItemQueueId(item: HistoryItem): string | undefined {
+    const idQueue = item.id_queue ?? item.data?.id_queue;
+    return idQueue === undefined ? undefined : String(idQueue);
+}
+
+export function matchesHistoryFilter(item: HistoryItem, filter: HistoryFilter): boolean {
+    if (filter.id && historyItemId(item) !== filter.id) {
+        return false;
+    }
+    if (filter.id_queue && historyItemQueueId(item) !== filter.id_queue) {
+        return false;
+    }
+    const time = Date.parse(item.timestamp);
+    if (filter.from !== undefined && time < filter.from) {
+        return false;
+    }
+    if (filter.to !== undefined && time > filter.to) {
+        return false;
+    }
+    if (filter.status !== undefined && item.response?.status !== filter.status) {
+        return false;
+    }
+    if (filter.q && !JSON.stringify(item).toLowerCase().includes(filter.q.toLowerCase())) {
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,20 @@
+import { logger } from '../logger';
+import { createMemoryStorage } from './memory';
+import { createRedisStorage } from './redis';
+import { Storage, StorageOptions } from './types';
+
+export * from './types';
+export { generateQueueId, historyItemId, historyItemQueueId } from './common';
+
+// STORAGE_BACKEND=memory dispensa o Redis (desenvolvimento local e testes); o padrão é redis
+export function createStorage(options: StorageOptions): Storage {
+    const backend = process.env.STORAGE_BACKEND || 'redis';
+    if (backend === 'memory') {
+        logger.warn('Usando armazenamento em memória: os dados se perdem ao reiniciar e não são compartilhados entre instâncias');
+        return createMemoryStorage(options);
+    }
+    if (backend !== 'redis') {
+        throw new Error(`STORAGE_BACKEND inválido: ${backend} (use redis ou memory)`);
+    }
+    return createRedisStorage(options);
+}
@@ -0,0 +1,530 @@
+import { EventEmitter } from 'events';
+import { generateQueueId, matchesHistoryFilter, mentionsId } from './common';
+import {
+    AuditEntry,
+    BatchReply,
+    ConfigCollection,
+    DeadLetterEntry,
+    EventReader,
+    HistoryItem,
+    HistoryType,
+    QueueInfo,
+    ReplyResponse,
+    StatusInfo,
+    Storage,
+    StorageOptions,
+    StoredEvent
+} from './types';
+
+interface Expiring<T> {
+    value: T;
+    expiresAt: number;
+}
+
+interface StoredReply {
+    id: string;
+    completedAt?: string;
+    responses: Record<string, ReplyResponse>;
+}
+
+// Os valores são copiados na entrada e na saída, como se fossem serializados no Redis,
+// para que alterações feitas pelo chamador não vazem para o que está armazenado
+function copy<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Backend para desenvolvimento local e testes: tudo fica no processo e se perde ao reiniciar.
+// Não há coordenação entre instâncias, então só deve ser usado com uma única réplica
+export function createMemoryStorage(options: StorageOptions): Storage {
+    const queues = new Map<string, Expiring<QueueInfo>>();
+    const batches = new Map<string, QueueInfo>();
+    const schedule = new Map<string, number>();
+    const locks = new Map<string, Expiring<string>>();
+    const counters = new Map<string, Expiring<number>>();
+    const slots = new Map<string, Map<string, number>>();
+    const statuses = new Map<string, StatusInfo>();
+    const resumes = new Map<string, number>();
+    const history: Record<HistoryType, HistoryItem[]> = { received: [], sent: [] };
+    const historySeq: Record<HistoryType, number> = { received: 0, sent: 0 };
+    const keys = new Map<string, Expiring<string>>();
+    const deadLetters = new Map<string, DeadLetterEntry>();
+    const config: Record<ConfigCollection, Map<string, any>> = {
+        destinations: new Map(),
+        routes: new Map(),
+        policies: new Map(),
+        sources: new Map(),
+        redactions: new Map()
+    };
+    let audit: AuditEntry[] = [];
+    const replies = new Map<string, Expiring<StoredReply>>();
+    const callbacks = new Map<string, Expiring<Set<string>>>();
+    let events: StoredEvent[] = [];
+    let eventSeq = 0;
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+
+    // TTL verificado na leitura, como a expiração preguiçosa do Redis
+    function getLive<T>(map: Map<string, Expiring<T>>, key: string): T | undefined {
+        const entry = map.get(key);
+        if (entry && entry.expiresAt <= Date.now()) {
+            map.delete(key);
+            return undefined;
+        }
+        return entry?.value;
+    }
+
+    function setIfAbsent(key: string, value: string, ttlSeconds: number): boolean {
+        if (getLive(keys, key) !== undefined) {
+            return false;
+        }
+        keys.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return true;
+    }
+
+    function getReplyEntry(idQueue: string, id: string, ttlSeconds: number): StoredReply {
+        const reply = getLive(replies, idQueue) || { id, responses: {} };
+        reply.id = id;
+        replies.set(idQueue, { value: reply, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return reply;
+    }
+
+    return {
+        backend: 'memory',
+
+        async connect() {},
+
+        async ping() {},
+
+        isReady() {
+            return true;
+        },
+
+        async close() {
+            emitter.emit('event');
+        },
+
+        async appendToQueue(id, message, limit = { maxMessages: 0, overflow: 'reject' }, persistent = false) {
+            const expiresAt = persistent ? Infinity : Date.now() + options.queueTtl * 1000;
+            const queue = getLive(queues, id) || { id_queue: generateQueueId(), messages: [], createdAt: Date.now() };
+            const full = limit.maxMessages > 0 && queue.messages.length >= limit.maxMessages;
+            if (full && (limit.overflow === 'reject' || (limit.overflow === 'flush' && batches.has(id)))) {
+                return { id_queue: queue.id_queue, count: queue.messages.length, dropped: 0, rejected: true };
+            }
+
+            queue.messages.push(copy(message));
+            let dropped = 0;
+            if (limit.maxMessages > 0 && limit.overflow === 'drop_oldest' && queue.messages.length > limit.maxMessages) {
+                dropped = queue.messages.length - limit.maxMessages;
+                queue.messages.splice(0, dropped);
+            }
+            queues.set(id, { value: queue, expiresAt });
+            return { id_queue: queue.id_queue, count: queue.messages.length, dropped, rejected: false };
+        },
+
+        async getQueue(id) {
+            return copy(getLive(queues, id)) || null;
+        },
+
+        async getBatch(id) {
+            return copy(batches.get(id)) || null;
+        },
+
+        async claimBatch(id) {
+            const queue = getLive(queues, id);
+            if (!batches.has(id) && queue) {
+                batches.set(id, queue);
+                queues.delete(id);
+            }
+            return copy(batches.get(id)) || null;
+        },
+
+        async saveBatchDeliveries(id, deliveries) {
+            const batch = batches.get(id);
+            if (batch) {
+                batch.deliveries = copy(deliveries);
+            }
+        },
+
+        async completeBatch(id) {
+            batches.delete(id);
+            if (getLive(queues, id)) {
+                return true;
+            }
+            schedule.delete(id);
+            return false;
+        },
+
+        async removeQueueMessage(id, index) {
+            const queue = getLive(queues, id);
+            if (!queue || index >= queue.messages.length) {
+                return null;
+            }
+            const [message] = queue.messages.splice(index, 1);
+            if (queue.messages.length === 0) {
+                queues.delete(id);
+            }
+            return message;
+        },
+
+        async deleteQueue(id) {
+            const existed = getLive(queues, id) !== undefined || batches.has(id);
+            queues.delete(id);
+            batches.delete(id);
+            schedule.delete(id);
+            return existed;
+        },
+
+        async countQueuedMessages(id) {
+            return (getLive(queues, id)?.messages.length || 0) + (batches.get(id)?.messages.length || 0);
+        },
+
+        async setQueuePersistent(id, persistent) {
+            const queue = getLive(queues, id);
+            if (queue) {
+                queues.set(id, { value: queue, expiresAt: persistent ? Infinity : Date.now() + options.queueTtl * 1000 });
+            }
+        },
+
+        async listQueueIds() {
+            const ids = new Set(batches.keys());
+            for (const id of Array.from(queues.keys())) {
+                if (getLive(queues, id)) {
+                    ids.add(id);
+                }
+            }
+            return Array.from(ids);
+        },
+
+        async scheduleQueue(id, dueAt, onlyIfAbsent = false) {
+            if (onlyIfAbsent && schedule.has(id)) {
+                return false;
+            }
+            const added = !schedule.has(id);
+            schedule.set(id, dueAt);
+            return added;
+        },
+
+        async unscheduleQueue(id) {
+            schedule.delete(id);
+        },
+
+        async getQueueSchedule(id) {
+            return schedule.get(id) ?? null;
+        },
+
+        async listScheduledQueues(until) {
+            return Array.from(schedule.entries())
+                .filter(([, dueAt]) => until === undefined || dueAt <= until)
+                .sort(([, a], [, b]) => a - b)
+                .map(([id, dueAt]) => ({ id, dueAt }));
+        },
+
+        async acquireLock(name, ttlMs) {
+            if (getLive(locks, name) !== undefined) {
+                return null;
+            }
+            const token = generateQueueId();
+            locks.set(name, { value: token, expiresAt: Date.now() + ttlMs });
+            return token;
+        },
+
+        async releaseLock(name, token) {
+            if (getLive(locks, name) === token) {
+                locks.delete(name);
+            }
+        },
+
+        async incrementCounter(key, windowMs) {
+            const counter = counters.get(key);
+            if (!counter || counter.expiresAt <= Date.now()) {
+                counters.set(key, { value: 1, expiresAt: Date.now() + windowMs });
+                return { count: 1, resetAt: Date.now() + windowMs };
+            }
+            counter.value++;
+            return { count: counter.value, resetAt: counter.expiresAt };
+        },
+
+        async deleteCounter(key) {
+            return counters.delete(key);
+        },
+
+        async acquireSlot(name, limit, ttlMs) {
+            const taken = slots.get(name) || new Map<string, number>();
+            const now = Date.now();
+            for (const [token, expiresAt] of Array.from(taken.entries())) {
+                if (expiresAt <= now) {
+                    taken.delete(token);
+                }
+            }
+            if (taken.size >= limit) {
+                return null;
+            }
+            const token = generateQueueId();
+            taken.set(token, now + ttlMs);
+            slots.set(name, taken);
+            return token;
+        },
+
+        async releaseSlot(name, token) {
+            slots.get(name)?.delete(token);
+        },
+
+        async getStatus(id) {
+            return copy(statuses.get(id)) || null;
+        },
+
+        async saveStatus(id, statusInfo) {
+            statuses.set(id, copy(statusInfo));
+            if (statusInfo.until) {
+                resumes.set(id, Date.parse(statusInfo.until));
+            } else {
+                resumes.delete(id);
+            }
+        },
+
+        async deleteStatus(id) {
+            resumes.delete(id);
+            return statuses.delete(id);
+        },
+
+        async listStatuses() {
+            return Array.from(statuses.entries()).map(([id, status]) => ({ id, status: copy(status) }));
+        },
+
+        async takeDueResumes(now) {
+            const taken: string[] = [];
+            for (const [id, resumeAt] of Array.from(resumes.entries())) {
+                if (resumeAt <= now) {
+                    resumes.delete(id);
+                    taken.push(id);
+                }
+            }
+            return taken;
+        },
+
+        async addToHistory(type, data) {
+            const item: HistoryItem = {
+                seq: ++historySeq[type],
+                timestamp: new Date().toISOString(),
+                ...copy(data)
+            };
+            history[type].push(item);
+            if (history[type].length > options.historyMaxEntries) {
+                history[type].splice(0, history[type].length - options.historyMaxEntries);
+            }
+            return copy(item);
+        },
+
+        async queryHistory(type, filter, limit, cursor) {
+            const items: HistoryItem[] = [];
+            for (let index = history[type].length - 1; index >= 0 && items.length < limit; index--) {
+                const item = history[type][index];
+                if (cursor !== undefined && (item.seq === undefined || item.seq >= cursor)) {
+                    continue;
+                }
+                if (matchesHistoryFilter(item, filter)) {
+                    items.push(copy(item));
+                }
+            }
+
+            const last = items[items.length - 1];
+            return {
+                items,
+                nextCursor: items.length === limit && last?.seq !== undefined ? last.seq : null
+            };
+        },
+
+        async pruneHistory(type, before) {
+            const kept = history[type].filter(item => Date.parse(item.timestamp) >= before);
+            const removed = history[type].length - kept.length;
+            history[type] = kept;
+            return removed;
+        },
+
+        async eraseHistory(type, id) {
+            const kept = history[type].filter(item => !mentionsId(item, id));
+            const removed = history[type].length - kept.length;
+            history[type] = kept;
+            return removed;
+        },
+
+        async clearAll() {
+            history.received = [];
+            history.sent = [];
+            historySeq.received = 0;
+            historySeq.sent = 0;
+            queues.clear();
+            batches.clear();
+            schedule.clear();
+            statuses.clear();
+            resumes.clear();
+        },
+
+        async claimIdempotencyKey(id, key, ttlSeconds) {
+            return setIfAbsent(`idempotency:${id}:${key}`, 'pending', ttlSeconds);
+        },
+
+        async getIdempotencyKey(id, key) {
+            return getLive(keys, `idempotency:${id}:${key}`) ?? null;
+        },
+
+        async setIdempotencyQueue(id, key, idQueue) {
+            const entry = keys.get(`idempotency:${id}:${key}`);
+            if (entry) {
+                entry.value = idQueue;
+            }
+        },
+
+        async releaseIdempotencyKey(id, key) {
+            keys.delete(`idempotency:${id}:${key}`);
+        },
+
+        async claimSignature(signature, ttlSeconds) {
+            return setIfAbsent(`signature:${signature}`, '1', ttlSeconds);
+        },
+
+        async saveDeadLetter(entry) {
+            deadLetters.set(entry.deadLetterId, copy(entry));
+        },
+
+        async getDeadLetter(deadLetterId) {
+            return copy(deadLetters.get(deadLetterId)) || null;
+        },
+
+        async listDeadLetters() {
+            return Array.from(deadLetters.values())
+                .sort((a, b) => Date.parse(b.failedAt) - Date.parse(a.failedAt))
+                .map(entry => copy(entry));
+        },
+
+        async removeDeadLetter(deadLetterId) {
+            return deadLetters.delete(deadLetterId);
+        },
+
+        async listConfig<T>(collection: ConfigCollection): Promise<T[]> {
+            return Array.from(config[collection].values()).map(value => copy(value));
+        },
+
+        async getConfig<T>(collection: ConfigCollection, name: string): Promise<T | null> {
+            return copy(config[collection].get(name)) ?? null;
+        },
+
+        async saveConfig(collection, name, value) {
+            config[collection].set(name, copy(value));
+        },
+
+        async deleteConfig(collection, name) {
+            return config[collection].delete(name);
+        },
+
+        async addAuditEntry(entry, maxEntries) {
+            audit = [copy(entry), ...audit].slice(0, maxEntries);
+        },
+
+        async listAuditEntries() {
+            return copy(audit);
+        },
+
+        async eraseAuditEntries(target) {
+            const kept = audit.filter(entry => entry.target !== target);
+            const removed = audit.length - kept.length;
+            audit = kept;
+            return removed;
+        },
+
+        async saveReplyResponse(idQueue, id, destination, response, ttlSeconds) {
+            getReplyEntry(idQueue, id, ttlSeconds).responses[destination] = copy(response);
+        },
+
+        async completeReply(idQueue, id, ttlSeconds) {
+            getReplyEntry(idQueue, id, ttlSeconds).completedAt = new Date().toISOString();
+        },
+
+        async getReply(idQueue) {
+            const reply = getLive(replies, idQueue);
+            if (!reply?.completedAt) {
+                return null;
+            }
+            const batchReply: BatchReply = { id: reply.id, id_queue: idQueue, completedAt: reply.completedAt, responses: reply.responses };
+            return copy(batchReply);
+        },
+
+        async addReplyCallback(idQueue, url, ttlSeconds) {
+            const urls = getLive(callbacks, idQueue) || new Set<string>();
+            urls.add(url);
+            callbacks.set(idQueue, { value: urls, expiresAt: Date.now() + ttlSeconds * 1000 });
+        },
+
+        async takeReplyCallbacks(idQueue) {
+            const urls = getLive(callbacks, idQueue);
+            callbacks.delete(idQueue);
+            return urls ? Array.from(urls) : [];
+        },
+
+        async eraseReplies(id) {
+            let removed = 0;
+            for (const [idQueue, entry] of Array.from(replies.entries())) {
+                if (entry.value.id === id) {
+                    replies.delete(idQueue);
+                    callbacks.delete(idQueue);
+                    removed++;
+                }
+            }
+            return removed;
+        },
+
+        // Ids sequenciais; o leitor devolve os eventos com id maior que o último recebido
+        async publishEvent(type, data) {
+            const event: StoredEvent = { id: String(++eventSeq), type, data: JSON.stringify(data) };
+            events.push(event);
+            if (events.length > options.eventsMaxLength) {
+                events = events.slice(-options.eventsMaxLength);
+            }
+            emitter.emit('event');
+            return event.id;
+        },
+
+        async getLatestEventId() {
+            return String(eventSeq);
+        },
+
+        async openEventReader(): Promise<EventReader> {
+            let wake: (() => void) | null = null;
+            const newer = (afterId: string) => {
+                const last = parseInt(afterId) || 0;
+                return events.filter(event => parseInt(event.id) > last).slice(0, 100);
+            };
+
+            return {
+                async read(afterId, blockMs) {
+                    const pending = newer(afterId);
+                    if (pending.length > 0) {
+                        return pending;
+                    }
+                    await new Promise<void>(resolve => {
+                        const timer = setTimeout(done, blockMs);
+                        function done() {
+                            clearTimeout(timer);
+                            emitter.off('event', done);
+                            wake = null;
+                            resolve();
+                        }
+                        wake = done;
+                        emitter.once('event', done);
+                    });
+                    return newer(afterId);
+                },
+                async close() {
+                    wake?.();
+                }
+            };
+        },
+
+        async eraseEvents(id) {
+            const kept = events.filter(event => !mentionsId(JSON.parse(event.data), id));
+            const removed = events.length - kept.length;
+            events = kept;
+            return removed;
+        }
+    };
+}
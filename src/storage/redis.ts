@@ -0,0 +1,705 @@
+import { createClient } from 'redis';
+import { logger } from '../logger';
+import { storageErrors } from '../metrics';
+import { generateQueueId, matchesHistoryFilter, mentionsId } from './common';
+import {
+    AuditEntry,
+    BatchReply,
+    ConfigCollection,
+    DeadLetterEntry,
+    DeliveryState,
+    EventReader,
+    HistoryFilter,
+    HistoryItem,
+    HistoryPage,
+    HistoryType,
+    QueueInfo,
+    QueueStatus,
+    ReplyResponse,
+    StatusInfo,
+    Storage,
+    StorageOptions,
+    WebhookMessage
+} from './types';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+const SCHEDULE_KEY = 'schedule:queues';
+const RESUME_SCHEDULE_KEY = 'schedule:resumes';
+const STATUS_INDEX_KEY = 'statusindex';
+const DEAD_LETTER_INDEX_KEY = 'deadletter:index';
+const AUDIT_KEY = 'audit:log';
+const EVENTS_KEY = 'events';
+const HISTORY_SCAN_CHUNK = 200;
+
+// Libera o lock apenas se ele ainda pertencer a esta instância
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+// KEYS: queue, queuemeta, batch | ARGV: mensagem, id_queue novo, agora, ttl (0 remove a expiração), limite, política
+// Retorna { id_queue, tamanho, descartadas, recusada }. Com flush a fila só é recusada se
+// já houver um lote em envio, pois nesse caso o envio forçado não consegue esvaziá-la
+const APPEND_SCRIPT = `
+local limit = tonumber(ARGV[5])
+local length = redis.call('llen', KEYS[1])
+if limit > 0 and length >= limit then
+    if ARGV[6] == 'reject' or (ARGV[6] == 'flush' and redis.call('exists', KEYS[3]) == 1) then
+        return { redis.call('hget', KEYS[2], 'id_queue'), length, 0, 1 }
+    end
+end
+if redis.call('exists', KEYS[2]) == 0 then
+    redis.call('hset', KEYS[2], 'id_queue', ARGV[2], 'createdAt', ARGV[3])
+end
+local count = redis.call('rpush', KEYS[1], ARGV[1])
+local dropped = 0
+if limit > 0 and ARGV[6] == 'drop_oldest' and count > limit then
+    dropped = count - limit
+    redis.call('ltrim', KEYS[1], dropped, -1)
+    count = limit
+end
+if tonumber(ARGV[4]) > 0 then
+    redis.call('expire', KEYS[1], ARGV[4])
+    redis.call('expire', KEYS[2], ARGV[4])
+else
+    redis.call('persist', KEYS[1])
+    redis.call('persist', KEYS[2])
+end
+return { redis.call('hget', KEYS[2], 'id_queue'), count, dropped, 0 }
+`;
+
+// KEYS: slots | ARGV: limite, token, agora, expiração; vagas expiradas são liberadas antes da contagem
+const ACQUIRE_SLOT_SCRIPT = `
+redis.call('zremrangebyscore', KEYS[1], '-inf', ARGV[3])
+if redis.call('zcard', KEYS[1]) >= tonumber(ARGV[1]) then
+    return 0
+end
+redis.call('zadd', KEYS[1], ARGV[4], ARGV[2])
+redis.call('pexpireat', KEYS[1], ARGV[4])
+return 1
+`;
+
+// KEYS: queue, queuemeta, batch, batchmeta
+const CLAIM_SCRIPT = `
+if redis.call('exists', KEYS[4]) == 1 or redis.call('exists', KEYS[1]) == 0 then
+    return 0
+end
+redis.call('rename', KEYS[1], KEYS[3])
+redis.call('rename', KEYS[2], KEYS[4])
+return 1
+`;
+
+// KEYS: queue, queuemeta | ARGV: posição; a fila vazia perde também os metadados
+const REMOVE_MESSAGE_SCRIPT = `
+local message = redis.call('lindex', KEYS[1], ARGV[1])
+if not message then
+    return nil
+end
+redis.call('lset', KEYS[1], ARGV[1], '__removed__')
+redis.call('lrem', KEYS[1], 1, '__removed__')
+if redis.call('llen', KEYS[1]) == 0 then
+    redis.call('del', KEYS[2])
+end
+return message
+`;
+
+// KEYS: batch, batchmeta, queue, schedule | ARGV: id
+const COMPLETE_SCRIPT = `
+redis.call('del', KEYS[1], KEYS[2])
+if redis.call('exists', KEYS[3]) == 1 then
+    return 1
+end
+redis.call('zrem', KEYS[4], ARGV[1])
+return 0
+`;
+
+// Sem limite de tentativas: com a fila offline desativada, as operações falham na hora
+// enquanto o Redis estiver fora e o cliente volta sozinho quando ele retornar
+function createRedisClient(): RedisClient {
+    const client = createClient({
+        url: process.env.REDIS_URL,
+        disableOfflineQueue: true,
+        socket: {
+            reconnectStrategy: (retries) => {
+                logger.info(`Tentativa de reconexão ${retries}`);
+                return Math.min(retries * 100, 3000);
+            }
+        }
+    });
+
+    client.on('error', err => {
+        storageErrors.inc();
+        logger.error('Redis Client Error', {
+            error: err,
+            syscall: (err as any).syscall,
+            hostname: (err as any).hostname,
+            address: (err as any).address,
+            port: (err as any).port
+        });
+    });
+
+    client.on('connect', () => {
+        logger.info('Redis conectado com sucesso');
+    });
+
+    client.on('reconnecting', () => {
+        logger.info('Reconectando ao Redis...');
+    });
+
+    return client;
+}
+
+// Lê o status do ID; aceita o formato antigo (texto puro)
+function parseStatusInfo(value: string): StatusInfo {
+    if (!value.startsWith('{')) {
+        return { status: value as QueueStatus, setAt: new Date(0).toISOString() };
+    }
+    return JSON.parse(value);
+}
+
+export function createRedisStorage(options: StorageOptions): Storage {
+    const client = createRedisClient();
+
+    // A fila pendente fica em queue:<id> (lista) + queuemeta:<id> (hash); ao ser enviada ela é
+    // renomeada para batch:<id> + batchmeta:<id>
+    async function readQueue(listKey: string, metaKey: string): Promise<QueueInfo | null> {
+        const [items, meta] = await client.multi()
+            .lRange(listKey, 0, -1)
+            .hGetAll(metaKey)
+            .exec() as unknown as [string[], Record<string, string>];
+
+        if (items.length === 0 || !meta.id_queue) {
+            return null;
+        }
+
+        return {
+            id_queue: meta.id_queue,
+            messages: items.map(item => JSON.parse(item)),
+            createdAt: meta.createdAt ? parseInt(meta.createdAt) : undefined,
+            deliveries: meta.deliveries ? JSON.parse(meta.deliveries) : undefined
+        };
+    }
+
+    // Converte filas gravadas como JSON único (formato anterior) para lista + metadados
+    async function migrateLegacyQueue(id: string): Promise<void> {
+        const data = await client.get(`queue:${id}`);
+        if (!data) {
+            return;
+        }
+
+        const legacy = JSON.parse(data);
+        logger.info(`Migrando fila do ID ${id} para o formato de lista`, { id });
+        const multi = client.multi()
+            .del(`queue:${id}`)
+            .hSet(`queuemeta:${id}`, { id_queue: legacy.id_queue, createdAt: (legacy.createdAt || Date.now()).toString() })
+            .expire(`queuemeta:${id}`, options.queueTtl);
+        if (legacy.messages.length > 0) {
+            multi.rPush(`queue:${id}`, legacy.messages.map((message: WebhookMessage) => JSON.stringify(message)))
+                .expire(`queue:${id}`, options.queueTtl);
+        }
+        await multi.exec();
+    }
+
+    // LREM pelo valor exato: itens inseridos ou cortados pelo LTRIM durante a leitura não são afetados
+    async function removeListItems<T>(key: string, predicate: (item: T) => boolean): Promise<number> {
+        const raws = (await client.lRange(key, 0, -1)).filter(raw => predicate(JSON.parse(raw)));
+        if (raws.length === 0) {
+            return 0;
+        }
+        const multi = client.multi();
+        raws.forEach(raw => multi.lRem(key, 1, raw));
+        const removed = await multi.exec() as unknown as number[];
+        return removed.reduce((total, count) => total + count, 0);
+    }
+
+    // Dados gravados por versões anteriores: filas em JSON único e status fora do índice
+    async function migrate(): Promise<void> {
+        for await (const key of client.scanIterator({ MATCH: 'queue:*', COUNT: 100 })) {
+            if (await client.type(key) === 'string') {
+                await migrateLegacyQueue(key.substring('queue:'.length));
+            }
+        }
+        for await (const key of client.scanIterator({ MATCH: 'status:*', COUNT: 100 })) {
+            await client.sAdd(STATUS_INDEX_KEY, key.substring('status:'.length));
+        }
+    }
+
+    return {
+        backend: 'redis',
+
+        async connect() {
+            logger.info('Tentando conectar ao Redis...');
+            await client.connect();
+            const pingResult = await client.ping();
+            logger.info('Redis PING successful', { result: pingResult });
+            await migrate();
+        },
+
+        async ping() {
+            await client.ping();
+        },
+
+        isReady() {
+            return client.isReady;
+        },
+
+        async close() {
+            if (client.isOpen) {
+                await client.quit();
+            }
+        },
+
+        // Append atômico: cria os metadados na primeira mensagem e renova o TTL da fila
+        async appendToQueue(id, message, limit = { maxMessages: 0, overflow: 'reject' }, persistent = false) {
+            const [idQueue, count, dropped, rejected] = await client.eval(APPEND_SCRIPT, {
+                keys: [`queue:${id}`, `queuemeta:${id}`, `batch:${id}`],
+                arguments: [
+                    JSON.stringify(message),
+                    generateQueueId(),
+                    Date.now().toString(),
+                    (persistent ? 0 : options.queueTtl).toString(),
+                    limit.maxMessages.toString(),
+                    limit.overflow
+                ]
+            }) as [string, number, number, number];
+            return { id_queue: idQueue, count, dropped, rejected: rejected === 1 };
+        },
+
+        getQueue(id) {
+            return readQueue(`queue:${id}`, `queuemeta:${id}`);
+        },
+
+        getBatch(id) {
+            return readQueue(`batch:${id}`, `batchmeta:${id}`);
+        },
+
+        // Move a fila pendente para o lote em envio, a menos que já exista um lote aguardando nova tentativa
+        async claimBatch(id) {
+            await client.eval(CLAIM_SCRIPT, {
+                keys: [`queue:${id}`, `queuemeta:${id}`, `batch:${id}`, `batchmeta:${id}`]
+            });
+            return readQueue(`batch:${id}`, `batchmeta:${id}`);
+        },
+
+        async saveBatchDeliveries(id, deliveries: Record<string, DeliveryState>) {
+            await client.hSet(`batchmeta:${id}`, 'deliveries', JSON.stringify(deliveries));
+        },
+
+        // Remove o lote enviado; retorna true se chegaram novas mensagens durante o envio
+        async completeBatch(id) {
+            const pending = await client.eval(COMPLETE_SCRIPT, {
+                keys: [`batch:${id}`, `batchmeta:${id}`, `queue:${id}`, SCHEDULE_KEY],
+                arguments: [id]
+            });
+            return pending === 1;
+        },
+
+        async removeQueueMessage(id, index) {
+            const message = await client.eval(REMOVE_MESSAGE_SCRIPT, {
+                keys: [`queue:${id}`, `queuemeta:${id}`],
+                arguments: [index.toString()]
+            }) as string | null;
+            return message ? JSON.parse(message) : null;
+        },
+
+        async deleteQueue(id) {
+            const [removedKeys] = await client.multi()
+                .del([`queue:${id}`, `queuemeta:${id}`, `batch:${id}`, `batchmeta:${id}`])
+                .zRem(SCHEDULE_KEY, id)
+                .exec() as unknown as [number, number];
+            return removedKeys > 0;
+        },
+
+        async countQueuedMessages(id) {
+            return await client.lLen(`queue:${id}`) + await client.lLen(`batch:${id}`);
+        },
+
+        async setQueuePersistent(id, persistent) {
+            const multi = client.multi();
+            for (const key of [`queue:${id}`, `queuemeta:${id}`, `batch:${id}`, `batchmeta:${id}`]) {
+                if (persistent) {
+                    multi.persist(key);
+                } else {
+                    multi.expire(key, options.queueTtl);
+                }
+            }
+            await multi.exec();
+        },
+
+        async listQueueIds() {
+            const ids = new Set<string>();
+            for (const prefix of ['queue:', 'batch:']) {
+                for await (const key of client.scanIterator({ MATCH: `${prefix}*`, COUNT: 100 })) {
+                    ids.add(key.substring(prefix.length));
+                }
+            }
+            return Array.from(ids);
+        },
+
+        async scheduleQueue(id, dueAt, onlyIfAbsent = false) {
+            const added = await client.zAdd(SCHEDULE_KEY, { score: dueAt, value: id }, onlyIfAbsent ? { NX: true } : undefined);
+            return added > 0;
+        },
+
+        async unscheduleQueue(id) {
+            await client.zRem(SCHEDULE_KEY, id);
+        },
+
+        getQueueSchedule(id) {
+            return client.zScore(SCHEDULE_KEY, id);
+        },
+
+        async listScheduledQueues(until) {
+            const scheduled = until === undefined
+                ? await client.zRangeWithScores(SCHEDULE_KEY, 0, -1)
+                : await client.zRangeByScoreWithScores(SCHEDULE_KEY, 0, until);
+            return scheduled.map(({ value, score }) => ({ id: value, dueAt: score }));
+        },
+
+        async acquireLock(name, ttlMs) {
+            const token = generateQueueId();
+            const result = await client.set(`lock:${name}`, token, { NX: true, PX: ttlMs });
+            return result === 'OK' ? token : null;
+        },
+
+        async releaseLock(name, token) {
+            await client.eval(RELEASE_LOCK_SCRIPT, {
+                keys: [`lock:${name}`],
+                arguments: [token]
+            });
+        },
+
+        async incrementCounter(key, windowMs) {
+            const [, count, ttl] = await client.multi()
+                .set(`ratelimit:${key}`, '0', { NX: true, PX: windowMs })
+                .incr(`ratelimit:${key}`)
+                .pTTL(`ratelimit:${key}`)
+                .exec() as unknown as [string | null, number, number];
+            return { count, resetAt: Date.now() + Math.max(ttl, 0) };
+        },
+
+        async deleteCounter(key) {
+            return (await client.del(`ratelimit:${key}`)) > 0;
+        },
+
+        async acquireSlot(name, limit, ttlMs) {
+            const token = generateQueueId();
+            const now = Date.now();
+            const acquired = await client.eval(ACQUIRE_SLOT_SCRIPT, {
+                keys: [`slots:${name}`],
+                arguments: [limit.toString(), token, now.toString(), (now + ttlMs).toString()]
+            });
+            return acquired === 1 ? token : null;
+        },
+
+        async releaseSlot(name, token) {
+            await client.zRem(`slots:${name}`, token);
+        },
+
+        async getStatus(id) {
+            const value = await client.get(`status:${id}`);
+            return value ? parseStatusInfo(value) : null;
+        },
+
+        async saveStatus(id, statusInfo) {
+            const multi = client.multi()
+                .set(`status:${id}`, JSON.stringify(statusInfo))
+                .sAdd(STATUS_INDEX_KEY, id);
+            if (statusInfo.until) {
+                multi.zAdd(RESUME_SCHEDULE_KEY, { score: Date.parse(statusInfo.until), value: id });
+            } else {
+                multi.zRem(RESUME_SCHEDULE_KEY, id);
+            }
+            await multi.exec();
+        },
+
+        async deleteStatus(id) {
+            const [removed] = await client.multi()
+                .del(`status:${id}`)
+                .sRem(STATUS_INDEX_KEY, id)
+                .zRem(RESUME_SCHEDULE_KEY, id)
+                .exec() as unknown as [number, number, number];
+            return removed > 0;
+        },
+
+        // Índice dos IDs com status, evitando KEYS status:* na listagem
+        async listStatuses() {
+            const ids = await client.sMembers(STATUS_INDEX_KEY);
+            if (ids.length === 0) {
+                return [];
+            }
+            const statuses = await client.mGet(ids.map(id => `status:${id}`));
+            return ids
+                .map((id, index) => ({ id, value: statuses[index] }))
+                .filter((entry): entry is { id: string; value: string } => entry.value !== null)
+                .map(({ id, value }) => ({ id, status: parseStatusInfo(value) }));
+        },
+
+        // O zRem garante que só uma instância retoma cada ID
+        async takeDueResumes(now) {
+            const dueIds = await client.zRangeByScore(RESUME_SCHEDULE_KEY, 0, now);
+            const taken: string[] = [];
+            for (const id of dueIds) {
+                if (await client.zRem(RESUME_SCHEDULE_KEY, id)) {
+                    taken.push(id);
+                }
+            }
+            return taken;
+        },
+
+        // Histórico em lista cronológica limitada: RPUSH + LTRIM mantém a escrita O(1)
+        async addToHistory(type, data) {
+            const key = `history:${type}`;
+            const seq = await client.incr(`history:${type}:seq`);
+            const item: HistoryItem = {
+                seq,
+                timestamp: new Date().toISOString(),
+                ...data
+            };
+            await client.multi()
+                .rPush(key, JSON.stringify(item))
+                .lTrim(key, -options.historyMaxEntries, -1)
+                .exec();
+            return item;
+        },
+
+        // Percorre o histórico do mais novo para o mais antigo em blocos até preencher a página.
+        // O cursor é o seq do último item retornado; a próxima página traz apenas itens mais antigos.
+        async queryHistory(type: HistoryType, filter: HistoryFilter, limit: number, cursor?: number): Promise<HistoryPage> {
+            const key = `history:${type}`;
+            const items: HistoryItem[] = [];
+            const seen = new Set<number>();
+            let end = -1;
+
+            while (items.length < limit) {
+                const start = end - HISTORY_SCAN_CHUNK + 1;
+                const chunk = await client.lRange(key, start, end);
+
+                for (const raw of chunk.reverse()) {
+                    const item: HistoryItem = JSON.parse(raw);
+                    if (cursor !== undefined && (item.seq === undefined || item.seq >= cursor)) {
+                        continue;
+                    }
+                    if (item.seq !== undefined) {
+                        if (seen.has(item.seq)) {
+                            continue;
+                        }
+                        seen.add(item.seq);
+                    }
+                    if (matchesHistoryFilter(item, filter)) {
+                        items.push(item);
+                        if (items.length === limit) {
+                            break;
+                        }
+                    }
+                }
+
+                if (chunk.length < HISTORY_SCAN_CHUNK) {
+                    break;
+                }
+                end = start - 1;
+            }
+
+            const last = items[items.length - 1];
+            return {
+                items,
+                nextCursor: items.length === limit && last?.seq !== undefined ? last.seq : null
+            };
+        },
+
+        async pruneHistory(type, before) {
+            return removeListItems(`history:${type}`, (item: HistoryItem) => Date.parse(item.timestamp) < before);
+        },
+
+        async eraseHistory(type, id) {
+            return removeListItems(`history:${type}`, (item: HistoryItem) => mentionsId(item, id));
+        },
+
+        async clearAll() {
+            await client.del(['history:received', 'history:sent', 'history:received:seq', 'history:sent:seq', STATUS_INDEX_KEY]);
+
+            // SCAN em vez de KEYS para não bloquear o Redis; os locks ficam, pois um envio em
+            // andamento perderia o seu e outra instância poderia enviar a mesma fila de novo
+            for (const pattern of ['queue:*', 'queuemeta:*', 'batch:*', 'batchmeta:*', 'lastMessage:*', 'status:*']) {
+                for await (const key of client.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+                    await client.del(key);
+                }
+            }
+            await client.del([SCHEDULE_KEY, RESUME_SCHEDULE_KEY]);
+        },
+
+        async claimIdempotencyKey(id, key, ttlSeconds) {
+            const result = await client.set(`idempotency:${id}:${key}`, 'pending', { NX: true, EX: ttlSeconds });
+            return result === 'OK';
+        },
+
+        getIdempotencyKey(id, key) {
+            return client.get(`idempotency:${id}:${key}`);
+        },
+
+        async setIdempotencyQueue(id, key, idQueue) {
+            await client.set(`idempotency:${id}:${key}`, idQueue, { KEEPTTL: true });
+        },
+
+        async releaseIdempotencyKey(id, key) {
+            await client.del(`idempotency:${id}:${key}`);
+        },
+
+        async claimSignature(signature, ttlSeconds) {
+            const result = await client.set(`signature:${signature}`, '1', { NX: true, EX: ttlSeconds });
+            return result === 'OK';
+        },
+
+        async saveDeadLetter(entry) {
+            await client.set(`deadletter:${entry.deadLetterId}`, JSON.stringify(entry));
+            await client.zAdd(DEAD_LETTER_INDEX_KEY, { score: Date.parse(entry.failedAt), value: entry.deadLetterId });
+        },
+
+        async getDeadLetter(deadLetterId) {
+            const data = await client.get(`deadletter:${deadLetterId}`);
+            return data ? JSON.parse(data) : null;
+        },
+
+        async listDeadLetters() {
+            const deadLetterIds = await client.zRange(DEAD_LETTER_INDEX_KEY, 0, -1, { REV: true });
+            const items = await Promise.all(deadLetterIds.map(deadLetterId => this.getDeadLetter(deadLetterId)));
+            return items.filter((item): item is DeadLetterEntry => item !== null);
+        },
+
+        async removeDeadLetter(deadLetterId) {
+            const removed = await client.del(`deadletter:${deadLetterId}`);
+            await client.zRem(DEAD_LETTER_INDEX_KEY, deadLetterId);
+            return removed > 0;
+        },
+
+        // Cada coleção de configuração é um hash com o nome como campo
+        async listConfig<T>(collection: ConfigCollection): Promise<T[]> {
+            const values = await client.hVals(collection);
+            return values.map(value => JSON.parse(value));
+        },
+
+        async getConfig<T>(collection: ConfigCollection, name: string): Promise<T | null> {
+            const data = await client.hGet(collection, name);
+            return data ? JSON.parse(data) : null;
+        },
+
+        async saveConfig(collection, name, value) {
+            await client.hSet(collection, name, JSON.stringify(value));
+        },
+
+        async deleteConfig(collection, name) {
+            return (await client.hDel(collection, name)) > 0;
+        },
+
+        async addAuditEntry(entry: AuditEntry, maxEntries: number) {
+            await client.lPush(AUDIT_KEY, JSON.stringify(entry));
+            await client.lTrim(AUDIT_KEY, 0, maxEntries - 1);
+        },
+
+        async listAuditEntries() {
+            const entries = await client.lRange(AUDIT_KEY, 0, -1);
+            return entries.map(entry => JSON.parse(entry));
+        },
+
+        async eraseAuditEntries(target) {
+            return removeListItems(AUDIT_KEY, (entry: AuditEntry) => entry.target === target);
+        },
+
+        // reply:<id_queue> guarda a resposta final de cada destino (destination:<nome>) e,
+        // ao fim do lote, completedAt; só então a resposta fica visível para quem espera
+        async saveReplyResponse(idQueue, id, destination, response: ReplyResponse, ttlSeconds) {
+            await client.multi()
+                .hSet(`reply:${idQueue}`, { id, [`destination:${destination}`]: JSON.stringify(response) })
+                .expire(`reply:${idQueue}`, ttlSeconds)
+                .exec();
+        },
+
+        async completeReply(idQueue, id, ttlSeconds) {
+            await client.multi()
+                .hSet(`reply:${idQueue}`, { id, completedAt: new Date().toISOString() })
+                .expire(`reply:${idQueue}`, ttlSeconds)
+                .exec();
+        },
+
+        async getReply(idQueue) {
+            const fields = await client.hGetAll(`reply:${idQueue}`);
+            if (!fields.completedAt) {
+                return null;
+            }
+            const responses: BatchReply['responses'] = {};
+            for (const [field, value] of Object.entries(fields)) {
+                if (field.startsWith('destination:')) {
+                    responses[field.substring('destination:'.length)] = JSON.parse(value);
+                }
+            }
+            return { id: fields.id, id_queue: idQueue, completedAt: fields.completedAt, responses };
+        },
+
+        async addReplyCallback(idQueue, url, ttlSeconds) {
+            await client.multi()
+                .sAdd(`callbacks:${idQueue}`, url)
+                .expire(`callbacks:${idQueue}`, ttlSeconds)
+                .exec();
+        },
+
+        async takeReplyCallbacks(idQueue) {
+            const [urls] = await client.multi()
+                .sMembers(`callbacks:${idQueue}`)
+                .del(`callbacks:${idQueue}`)
+                .exec() as unknown as [string[], number];
+            return urls;
+        },
+
+        async eraseReplies(id) {
+            let removed = 0;
+            for await (const key of client.scanIterator({ MATCH: 'reply:*', COUNT: 100 })) {
+                if (await client.hGet(key, 'id') === id) {
+                    const idQueue = key.substring('reply:'.length);
+                    await client.del([key, `callbacks:${idQueue}`]);
+                    removed++;
+                }
+            }
+            return removed;
+        },
+
+        // Eventos ficam em um stream: o id do stream é o id do evento SSE, o que permite
+        // a qualquer instância retomar a partir do Last-Event-ID
+        publishEvent(type, data) {
+            return client.xAdd(EVENTS_KEY, '*', { type, data: JSON.stringify(data) }, {
+                TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: options.eventsMaxLength }
+            });
+        },
+
+        async getLatestEventId() {
+            const [latest] = await client.xRevRange(EVENTS_KEY, '+', '-', { COUNT: 1 });
+            return latest ? latest.id : '0-0';
+        },
+
+        // XREAD bloqueante precisa de uma conexão própria
+        async openEventReader(): Promise<EventReader> {
+            const reader = client.duplicate();
+            await reader.connect();
+            return {
+                async read(afterId, blockMs) {
+                    const result = await reader.xRead({ key: EVENTS_KEY, id: afterId }, { BLOCK: blockMs, COUNT: 100 });
+                    if (!result || result.length === 0) {
+                        return [];
+                    }
+                    return result[0].messages.map(({ id, message }) => ({ id, type: message.type, data: message.data }));
+                },
+                async close() {
+                    await reader.quit();
+                }
+            };
+        },
+
+        async eraseEvents(id) {
+            const entries = await client.xRange(EVENTS_KEY, '-', '+');
+            const ids = entries.filter(({ message }) => mentionsId(JSON.parse(message.data), id)).map(entry => entry.id);
+            return ids.length > 0 ? client.xDel(EVENTS_KEY, ids) : 0;
+        }
+    };
+}
@@ -0,0 +1,219 @@
+export interface WebhookMessage {
+    message: string;
+    [key: string]: any;
+}
+
+export interface DeliveryState {
+    attempts: number;
+    delivered: boolean;
+}
+
+export interface QueueInfo {
+    id_queue: string;
+    messages: WebhookMessage[];
+    createdAt?: number;
+    deliveries?: Record<string, DeliveryState>;
+}
+
+// Ao atingir o limite de mensagens da fila: recusa a nova, descarta a mais antiga ou força o envio
+export type OverflowPolicy = 'reject' | 'drop_oldest' | 'flush';
+
+export interface QueueLimit {
+    maxMessages: number; // 0 desativa o limite
+    overflow: OverflowPolicy;
+}
+
+export interface AppendResult {
+    id_queue: string;
+    count: number;
+    dropped: number;
+    rejected: boolean;
+}
+
+export type HistoryType = 'received' | 'sent';
+
+export interface HistoryItem {
+    seq?: number;
+    timestamp: string;
+    // Nos envios ficam fora de data, que pode ter sido reformatado pelo template do destino
+    id?: string;
+    id_queue?: string;
+    data: any;
+    response?: {
+        status: number;
+        data: any;
+    };
+    [key: string]: any;
+}
+
+export interface HistoryFilter {
+    id?: string;
+    id_queue?: string;
+    from?: number;
+    to?: number;
+    status?: number;
+    q?: string;
+}
+
+export interface HistoryPage {
+    items: HistoryItem[];
+    nextCursor: number | null;
+}
+
+// paused descarta as mensagens recebidas; hold as mantém na fila até a retomada
+export type QueueStatus = 'online' | 'paused' | 'hold';
+
+export interface StatusOptions {
+    reason?: string;
+    setBy?: string;
+    until?: string;
+}
+
+export interface StatusInfo extends StatusOptions {
+    status: QueueStatus;
+    setAt: string;
+}
+
+export interface DeadLetterEntry {
+    deadLetterId: string;
+    id: string;
+    id_queue: string;
+    destination: string;
+    url: string;
+    payload: any;
+    messages: WebhookMessage[];
+    attempts: number;
+    lastResponse: {
+        status: number;
+        data: any;
+    };
+    failedAt: string;
+}
+
+export interface AuditEntry {
+    timestamp: string;
+    actor: string;
+    action: string;
+    target: string;
+    details?: any;
+}
+
+export interface ReplyResponse {
+    delivered: boolean;
+    status: number;
+    data: any;
+}
+
+// Resposta dos destinos a um lote, disponível quando todas as entregas terminam
+export interface BatchReply {
+    id: string;
+    id_queue: string;
+    completedAt: string;
+    responses: Record<string, ReplyResponse>;
+}
+
+export interface StoredEvent {
+    id: string;
+    type: string;
+    data: string;
+}
+
+// Leitura bloqueante do stream de eventos; cada conexão SSE abre o seu leitor
+export interface EventReader {
+    read(afterId: string, blockMs: number): Promise<StoredEvent[]>;
+    close(): Promise<void>;
+}
+
+export type ConfigCollection = 'destinations' | 'routes' | 'policies' | 'sources' | 'redactions';
+
+export interface StorageOptions {
+    queueTtl: number; // segundos
+    historyMaxEntries: number;
+    eventsMaxLength: number;
+}
+
+// Tudo o que o agregador persiste. As operações de fila precisam ser atômicas entre
+// instâncias no backend Redis; o backend em memória atende um único processo
+export interface Storage {
+    readonly backend: 'redis' | 'memory';
+
+    connect(): Promise<void>;
+    ping(): Promise<void>;
+    isReady(): boolean;
+    close(): Promise<void>;
+
+    // Fila pendente e lote em envio: ao ser enviada a fila vira o lote, e novas
+    // mensagens passam a formar outra fila
+    // persistent mantém a fila sem expiração enquanto o ID está em hold
+    appendToQueue(id: string, message: WebhookMessage, limit?: QueueLimit, persistent?: boolean): Promise<AppendResult>;
+    getQueue(id: string): Promise<QueueInfo | null>;
+    getBatch(id: string): Promise<QueueInfo | null>;
+    claimBatch(id: string): Promise<QueueInfo | null>;
+    saveBatchDeliveries(id: string, deliveries: Record<string, DeliveryState>): Promise<void>;
+    completeBatch(id: string): Promise<boolean>;
+    removeQueueMessage(id: string, index: number): Promise<WebhookMessage | null>;
+    deleteQueue(id: string): Promise<boolean>;
+    countQueuedMessages(id: string): Promise<number>;
+    // Remove (true) ou restaura (false) a expiração da fila e do lote do ID
+    setQueuePersistent(id: string, persistent: boolean): Promise<void>;
+    listQueueIds(): Promise<string[]>;
+
+    scheduleQueue(id: string, dueAt: number, onlyIfAbsent?: boolean): Promise<boolean>;
+    unscheduleQueue(id: string): Promise<void>;
+    getQueueSchedule(id: string): Promise<number | null>;
+    listScheduledQueues(until?: number): Promise<{ id: string; dueAt: number }[]>;
+    acquireLock(name: string, ttlMs: number): Promise<string | null>;
+    releaseLock(name: string, token: string): Promise<void>;
+
+    // Contador em janela fixa para limites de taxa; retorna o valor após o incremento
+    incrementCounter(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+    deleteCounter(key: string): Promise<boolean>;
+    // Semáforo com vagas que expiram, para limitar envios simultâneos entre instâncias
+    acquireSlot(name: string, limit: number, ttlMs: number): Promise<string | null>;
+    releaseSlot(name: string, token: string): Promise<void>;
+
+    getStatus(id: string): Promise<StatusInfo | null>;
+    saveStatus(id: string, statusInfo: StatusInfo): Promise<void>;
+    deleteStatus(id: string): Promise<boolean>;
+    listStatuses(): Promise<{ id: string; status: StatusInfo }[]>;
+    takeDueResumes(now: number): Promise<string[]>;
+
+    addToHistory(type: HistoryType, data: any): Promise<HistoryItem>;
+    queryHistory(type: HistoryType, filter: HistoryFilter, limit: number, cursor?: number): Promise<HistoryPage>;
+    // Retenção e apagamento: retornam quantos itens foram removidos
+    pruneHistory(type: HistoryType, before: number): Promise<number>;
+    eraseHistory(type: HistoryType, id: string): Promise<number>;
+    clearAll(): Promise<void>;
+
+    claimIdempotencyKey(id: string, key: string, ttlSeconds: number): Promise<boolean>;
+    getIdempotencyKey(id: string, key: string): Promise<string | null>;
+    setIdempotencyQueue(id: string, key: string, idQueue: string): Promise<void>;
+    releaseIdempotencyKey(id: string, key: string): Promise<void>;
+    claimSignature(signature: string, ttlSeconds: number): Promise<boolean>;
+
+    saveDeadLetter(entry: DeadLetterEntry): Promise<void>;
+    getDeadLetter(deadLetterId: string): Promise<DeadLetterEntry | null>;
+    listDeadLetters(): Promise<DeadLetterEntry[]>;
+    removeDeadLetter(deadLetterId: string): Promise<boolean>;
+
+    listConfig<T>(collection: ConfigCollection): Promise<T[]>;
+    getConfig<T>(collection: ConfigCollection, name: string): Promise<T | null>;
+    saveConfig<T>(collection: ConfigCollection, name: string, value: T): Promise<void>;
+    deleteConfig(collection: ConfigCollection, name: string): Promise<boolean>;
+
+    addAuditEntry(entry: AuditEntry, maxEntries: number): Promise<void>;
+    listAuditEntries(): Promise<AuditEntry[]>;
+    eraseAuditEntries(target: string): Promise<number>;
+
+    saveReplyResponse(idQueue: string, id: string, destination: string, response: ReplyResponse, ttlSeconds: number): Promise<void>;
+    completeReply(idQueue: string, id: string, ttlSeconds: number): Promise<void>;
+    getReply(idQueue: string): Promise<BatchReply | null>;
+    addReplyCallback(idQueue: string, url: string, ttlSeconds: number): Promise<void>;
+    takeReplyCallbacks(idQueue: string): Promise<string[]>;
+    eraseReplies(id: string): Promise<number>;
+
+    publishEvent(type: string, data: any): Promise<string>;
+    getLatestEventId(): Promise<string>;
+    openEventReader(): Promise<EventReader>;
+    eraseEvents(id: string): Promise<number>;
+}
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+// Precisa valer antes de carregar o app, que lê a configuração ao ser importado
+process.env.STORAGE_BACKEND = 'memory';
+process.env.API_KEYS = 'test:admin:test-key';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+type App = typeof import('../src/app');
+
+const QUEUE = {
+    id_queue: 'q1',
+    messages: [
+        { message: 'oi', contact: { name: 'Ana' }, channel: 'whatsapp' },
+        { message: 'tudo bem?', contact: { phone: '5511' } }
+    ]
+};
+
+describe('aggregateMessages', () => {
+    let aggregateMessages: App['aggregateMessages'];
+
+    before(async () => {
+        ({ aggregateMessages } = await import('../src/app'));
+    });
+
+    function withoutTimestamp(payload: any) {
+        assert.ok(!isNaN(Date.parse(payload.timestamp)));
+        const { timestamp, ...rest } = payload;
+        return rest;
+    }
+
+    it('concatenate une os textos e leva os campos da última mensagem ao topo', () => {
+        assert.deepEqual(withoutTimestamp(aggregateMessages('u1', QUEUE, { strategy: 'concatenate' })), {
+            id: 'u1',
+            id_queue: 'q1',
+            messages: [{ message: 'oi\n\ntudo bem?' }],
+            message: 'tudo bem?',
+            contact: { phone: '5511' }
+        });
+    });
+
+    it('concatenate com uma só mensagem mantém a mensagem original', () => {
+        const queue = { id_queue: 'q1', messages: [QUEUE.messages[0]] };
+        assert.deepEqual(withoutTimestamp(aggregateMessages('u1', queue, { strategy: 'concatenate' })).messages, [QUEUE.messages[0]]);
+    });
+
+    it('array envia as mensagens originais sem campos extras', () => {
+        assert.deepEqual(withoutTimestamp(aggregateMessages('u1', QUEUE, { strategy: 'array' })), {
+            id: 'u1',
+            id_queue: 'q1',
+            messages: QUEUE.messages
+        });
+    });
+
+    it('merge mescla as mensagens em profundidade', () => {
+        const merged = { message: 'tudo bem?', contact: { name: 'Ana', phone: '5511' }, channel: 'whatsapp' };
+        assert.deepEqual(withoutTimestamp(aggregateMessages('u1', QUEUE, { strategy: 'merge' })), {
+            id: 'u1',
+            id_queue: 'q1',
+            messages: [merged],
+            ...merged
+        });
+    });
+
+    it('last envia só a última mensagem', () => {
+        assert.deepEqual(withoutTimestamp(aggregateMessages('u1', QUEUE, { strategy: 'last' })), {
+            id: 'u1',
+            id_queue: 'q1',
+            messages: [QUEUE.messages[1]],
+            ...QUEUE.messages[1]
+        });
+    });
+
+    it('template resolve as expressões e mantém valores fixos', () => {
+        const template = { texto: '$join.message', nome: '$first.contact.name', telefones: '$all.contact.phone', total: '$count', origem: 'bot' };
+        assert.deepEqual(withoutTimestamp(aggregateMessages('u1', QUEUE, { strategy: 'template', template })), {
+            id: 'u1',
+            id_queue: 'q1',
+            texto: 'oi\n\ntudo bem?',
+            nome: 'Ana',
+            telefones: [undefined, '5511'],
+            total: 2,
+            origem: 'bot'
+        });
+    });
+
+    for (const strategy of ['concatenate', 'merge', 'last'] as const) {
+        it(`${strategy} não deixa campos da mensagem sobrescreverem o envelope`, () => {
+            const queue = { id_queue: 'q1', messages: [{ message: 'a', id: 'outro', id_queue: 'x', timestamp: 'ontem', messages: 'y' }] };
+            const payload = aggregateMessages('u1', queue, { strategy });
+            assert.equal(payload.id, 'u1');
+            assert.equal(payload.id_queue, 'q1');
+            assert.notEqual(payload.timestamp, 'ontem');
+            assert.ok(Array.isArray(payload.messages));
+            assert.equal(payload.messages[0].timestamp, 'ontem');
+        });
+    }
+});
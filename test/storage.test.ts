@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { generateQueueId, Storage, StorageOptions } from '../src/storage';
+import { createMemoryStorage } from '../src/storage/memory';
+import { createRedisStorage } from '../src/storage/redis';
+
+const OPTIONS: StorageOptions = { queueTtl: 60, historyMaxEntries: 100, eventsMaxLength: 100 };
+const PRODUCERS = 20;
+const MESSAGES_PER_PRODUCER = 25;
+
+function pause(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Produtores enfileiram em paralelo enquanto um consumidor move a fila para o lote e o conclui,
+// como o agendador faz; toda mensagem precisa sair em exatamente um lote
+async function appendWhileFlushing(storage: Storage, id: string): Promise<string[]> {
+    const delivered: string[] = [];
+    let producing = true;
+
+    const consumer = (async () => {
+        while (producing || await storage.countQueuedMessages(id) > 0) {
+            const batch = await storage.claimBatch(id);
+            if (batch) {
+                delivered.push(...batch.messages.map(message => message.message));
+                await storage.completeBatch(id);
+            }
+            await pause(1);
+        }
+    })();
+
+    await Promise.all(Array.from({ length: PRODUCERS }, async (_, producer) => {
+        for (let index = 0; index < MESSAGES_PER_PRODUCER; index++) {
+            await storage.appendToQueue(id, { message: `${producer}-${index}` });
+            if (index % 5 === 0) {
+                await pause(Math.random() * 3);
+            }
+        }
+    }));
+    producing = false;
+    await consumer;
+    return delivered;
+}
+
+function describeStorage(name: string, create: (options: StorageOptions) => Storage, skip: boolean): void {
+    describe(`armazenamento ${name}`, { skip }, () => {
+        let storage: Storage;
+
+        before(async () => {
+            storage = create(OPTIONS);
+            await storage.connect();
+        });
+
+        after(async () => {
+            await storage.close();
+        });
+
+        it('não perde nem duplica mensagens com appends paralelos durante o envio', async () => {
+            const id = `test-${generateQueueId()}`;
+            const delivered = await appendWhileFlushing(storage, id);
+            await storage.deleteQueue(id);
+
+            const expected = [];
+            for (let producer = 0; producer < PRODUCERS; producer++) {
+                for (let index = 0; index < MESSAGES_PER_PRODUCER; index++) {
+                    expected.push(`${producer}-${index}`);
+                }
+            }
+            assert.equal(delivered.length, expected.length);
+            assert.deepEqual([...delivered].sort(), expected.sort());
+        });
+
+        it('mantém a ordem de chegada de cada produtor', async () => {
+            const id = `test-${generateQueueId()}`;
+            const delivered = await appendWhileFlushing(storage, id);
+            await storage.deleteQueue(id);
+
+            for (let producer = 0; producer < PRODUCERS; producer++) {
+                const indexes = delivered
+                    .filter(message => message.startsWith(`${producer}-`))
+                    .map(message => parseInt(message.split('-')[1]));
+                assert.deepEqual(indexes, [...indexes].sort((a, b) => a - b));
+            }
+        });
+
+        it('a fila formada durante o envio continua agendada após concluir o lote', async () => {
+            const id = `test-${generateQueueId()}`;
+            await storage.appendToQueue(id, { message: 'primeira' });
+            await storage.scheduleQueue(id, Date.now());
+            await storage.claimBatch(id);
+            await storage.appendToQueue(id, { message: 'segunda' });
+
+            assert.equal(await storage.completeBatch(id), true);
+            assert.equal((await storage.getQueue(id))?.messages[0].message, 'segunda');
+            assert.notEqual(await storage.getQueueSchedule(id), null);
+            await storage.deleteQueue(id);
+        });
+
+        it('remove o contador de limite de taxa', async () => {
+            const key = `id:test-${generateQueueId()}`;
+            await storage.incrementCounter(key, 60000);
+            await storage.incrementCounter(key, 60000);
+
+            assert.equal(await storage.deleteCounter(key), true);
+            assert.equal((await storage.incrementCounter(key, 60000)).count, 1);
+            await storage.deleteCounter(key);
+        });
+
+        it('filas persistentes não expiram até a expiração ser restaurada', async () => {
+            const shortLived = create({ ...OPTIONS, queueTtl: 1 });
+            await shortLived.connect();
+            const held = `test-${generateQueueId()}`;
+            const online = `test-${generateQueueId()}`;
+            await shortLived.appendToQueue(held, { message: 'retida' }, undefined, true);
+            await shortLived.appendToQueue(online, { message: 'comum' });
+            await pause(1100);
+
+            assert.equal((await shortLived.getQueue(held))?.messages.length, 1);
+            assert.equal(await shortLived.getQueue(online), null);
+
+            await shortLived.setQueuePersistent(held, false);
+            await pause(1100);
+            assert.equal(await shortLived.getQueue(held), null);
+            await shortLived.close();
+        });
+    });
+}
+
+describeStorage('em memória', createMemoryStorage, false);
+// Os scripts Lua só rodam em um Redis real; use uma instância descartável em REDIS_URL
+describeStorage('Redis', createRedisStorage, !process.env.REDIS_URL);
@@ -0,0 +1,298 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+
+// Precisa valer antes de carregar o app, que lê a configuração ao ser importado
+process.env.STORAGE_BACKEND = 'memory';
+process.env.AGGREGATION_WINDOW = '50';
+process.env.API_KEYS = 'test:admin:test-key';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+type App = typeof import('../src/app');
+
+describe('POST /webhook → envio', () => {
+    let aggregator: App;
+    let server: http.Server;
+    let receiver: http.Server;
+    let baseUrl: string;
+    let received: { headers: http.IncomingHttpHeaders; body: any }[] = [];
+    let receiverStatus = 200;
+    let receiverRetryAfter: string | undefined;
+
+    before(async () => {
+        receiver = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                received.push({ headers: req.headers, body: JSON.parse(body) });
+                res.statusCode = receiverStatus;
+                if (receiverRetryAfter) {
+                    res.setHeader('Retry-After', receiverRetryAfter);
+                }
+                res.end('{"ok":true}');
+            });
+        });
+        await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+        process.env.WEBHOOK_URL = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+        aggregator = await import('../src/app');
+        await aggregator.storage.connect();
+        server = aggregator.app.listen(0, '127.0.0.1');
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await new Promise(resolve => receiver.close(resolve));
+        await aggregator.storage.close();
+    });
+
+    beforeEach(async () => {
+        received = [];
+        receiverStatus = 200;
+        receiverRetryAfter = undefined;
+        await aggregator.storage.clearAll();
+    });
+
+    function request(method: string, path: string, body?: any): Promise<Response> {
+        return fetch(`${baseUrl}${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json', 'X-Api-Key': 'test-key' },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+    }
+
+    // Roda o agendador manualmente até a condição valer, sem depender do setInterval
+    async function pollUntil(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        while (!condition()) {
+            assert.ok(Date.now() < deadline, 'tempo esgotado esperando o envio');
+            await aggregator.pollDueQueues();
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    }
+
+    it('agrega as mensagens de um ID e entrega um único lote ao destino', async () => {
+        const first = await request('POST', '/webhook', { id: 'u1', message: 'olá' });
+        const second = await request('POST', '/webhook', { id: 'u1', message: 'tudo bem?' });
+        assert.equal(first.status, 200);
+        assert.equal(second.status, 200);
+        const { data } = await first.json();
+
+        await pollUntil(() => received.length > 0);
+
+        assert.equal(received.length, 1);
+        assert.equal(received[0].body.id, 'u1');
+        assert.equal(received[0].body.id_queue, data.id_queue);
+        assert.deepEqual(received[0].body.messages, [{ message: 'olá\n\ntudo bem?' }]);
+
+        const queues = await (await request('GET', '/queues')).json();
+        assert.deepEqual(queues.data, []);
+        const history = await (await request('GET', '/history?type=sent&id=u1')).json();
+        assert.equal(history.sent.length, 1);
+        assert.equal(history.sent[0].response.status, 200);
+    });
+
+    it('IDs diferentes formam lotes separados', async () => {
+        await request('POST', '/webhook', { id: 'u1', message: 'a' });
+        await request('POST', '/webhook', { id: 'u2', message: 'b' });
+
+        await pollUntil(() => received.length === 2);
+
+        assert.deepEqual(received.map(item => item.body.id).sort(), ['u1', 'u2']);
+    });
+
+    it('envia as filas vencidas pelo disparo sob demanda do agendador', async () => {
+        await request('POST', '/webhook', { id: 'u1', message: 'a' });
+        await new Promise(resolve => setTimeout(resolve, 60));
+
+        assert.equal((await fetch(`${baseUrl}/scheduler/tick`)).status, 401);
+        const response = await fetch(`${baseUrl}/scheduler/tick`, { headers: { Authorization: 'Bearer test-key' } });
+        assert.equal(response.status, 200);
+        assert.equal((await response.json()).data.processed, 1);
+        assert.equal(received.length, 1);
+    });
+
+    it('mantém o lote para nova tentativa quando o destino falha', async () => {
+        receiverStatus = 500;
+        await request('POST', '/webhook', { id: 'u1', message: 'a' });
+
+        await pollUntil(() => received.length > 0);
+
+        const queue = await (await request('GET', '/queues/u1')).json();
+        assert.equal(queue.data.inFlight.messages[0].message, 'a');
+        assert.equal(queue.data.inFlight.deliveries.default.attempts, 1);
+    });
+
+    it('conta cada lote uma única vez em webhook_batches_flushed_total', async () => {
+        const flushedTotal = async () => (await (await request('GET', '/metrics')).text())
+            .split('\n')
+            .filter(line => line.startsWith('webhook_batches_flushed_total{'))
+            .reduce((total, line) => total + Number(line.split(' ').pop()), 0);
+        const before = await flushedTotal();
+
+        receiverStatus = 500;
+        await request('POST', '/webhook', { id: 'u1', message: 'a' });
+        await pollUntil(() => received.length > 0);
+        await request('POST', '/queues/u1/flush');
+
+        assert.equal(received.length, 2);
+        assert.equal(await flushedTotal(), before + 1);
+    });
+
+    it('novas mensagens não antecipam a nova tentativa de um lote', async () => {
+        receiverStatus = 503;
+        receiverRetryAfter = '60';
+        await request('POST', '/webhook', { id: 'u1', message: 'a' });
+        await pollUntil(() => received.length > 0);
+        const retryAt = await aggregator.storage.getQueueSchedule('u1');
+        assert.ok(retryAt !== null && retryAt > Date.now() + 50000);
+
+        await request('POST', '/webhook', { id: 'u1', message: 'b' });
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await aggregator.pollDueQueues();
+
+        assert.equal(received.length, 1);
+        assert.equal(await aggregator.storage.getQueueSchedule('u1'), retryAt);
+    });
+
+    it('descarta as mensagens de um ID pausado', async () => {
+        await request('POST', '/status/u1/pause', {});
+        const response = await request('POST', '/webhook', { id: 'u1', message: 'a' });
+        await aggregator.pollDueQueues();
+
+        assert.equal(response.status, 200);
+        assert.equal((await response.json()).data.currentStatus, 'paused');
+        assert.equal(received.length, 0);
+    });
+
+    it('lista as filas em hold, que não têm envio agendado', async () => {
+        await request('POST', '/status/u3/pause', { mode: 'hold' });
+        await request('POST', '/webhook', { id: 'u3', message: 'a' });
+
+        const queues = (await (await request('GET', '/queues')).json()).data;
+        const held = queues.find((queue: any) => queue.id === 'u3');
+        assert.equal(held.messageCount, 1);
+        assert.equal(held.status, 'hold');
+        assert.equal(held.scheduledAt, undefined);
+
+        await request('DELETE', '/ids/u3');
+    });
+
+    it('não descarta a fila enquanto ela está em envio', async () => {
+        await request('POST', '/webhook', { id: 'u1', message: 'a' });
+        const token = await aggregator.storage.acquireLock('queue:u1', 5000);
+
+        assert.equal((await request('DELETE', '/queues/u1')).status, 409);
+        await aggregator.storage.releaseLock('queue:u1', token!);
+        assert.equal((await request('DELETE', '/queues/u1')).status, 200);
+    });
+
+    it('envios com template do destino continuam filtráveis e apagáveis pelo ID', async () => {
+        await request('PUT', '/destinations/default', { url: process.env.WEBHOOK_URL, template: { text: '$join.message' } });
+        await request('POST', '/webhook', { id: 'u1', message: 'hello' });
+        await request('POST', '/webhook', { id: 'u1', message: 'world' });
+
+        await pollUntil(() => received.length > 0);
+        assert.deepEqual(received[0].body, { text: 'hello\n\nworld' });
+
+        const history = await (await request('GET', '/history?type=sent&id=u1')).json();
+        assert.equal(history.sent.length, 1);
+        assert.equal(history.sent[0].id, 'u1');
+
+        const erased = await (await request('DELETE', '/ids/u1')).json();
+        assert.deepEqual(erased.data.history, { received: 2, sent: 1 });
+        const exported = await (await request('GET', '/history/export?type=sent')).text();
+        assert.equal(exported, '');
+
+        await request('DELETE', '/destinations/default');
+    });
+
+    it('apaga da auditoria as entradas do ID e registra o apagamento só com o hash', async () => {
+        await request('POST', '/status/u2/pause', {});
+        await request('DELETE', '/ids/u2');
+
+        const audit = (await (await request('GET', '/audit')).json()).data;
+        assert.equal(audit.some((entry: any) => entry.target === 'u2'), false);
+        assert.equal(audit.filter((entry: any) => entry.action === 'id.erase' && entry.target.startsWith('sha256:')).length > 0, true);
+    });
+
+    it('recusa callbacks fora de REPLY_CALLBACK_HOSTS e exige chave em /replies', async () => {
+        const response = await fetch(`${baseUrl}/webhook`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Callback-Url': 'http://169.254.169.254/latest' },
+            body: JSON.stringify({ id: 'u1', message: 'a' })
+        });
+        assert.equal(response.status, 400);
+
+        assert.equal((await fetch(`${baseUrl}/replies/qualquer`)).status, 401);
+        assert.equal((await request('GET', '/replies/qualquer')).status, 202);
+    });
+
+    it('recusa timeout de destino igual ou maior que o lock da fila', async () => {
+        const response = await request('PUT', '/destinations/lento', { url: process.env.WEBHOOK_URL, timeout: 90000 });
+        assert.equal(response.status, 400);
+    });
+
+    it('abre o stream de eventos com token de curta duração, não com a chave na URL', async () => {
+        assert.equal((await fetch(`${baseUrl}/events?apiKey=test-key`)).status, 401);
+        assert.equal((await fetch(`${baseUrl}/events?token=0.abc.test`)).status, 401);
+
+        const { data } = await (await request('POST', '/events/token')).json();
+        const controller = new AbortController();
+        const response = await fetch(`${baseUrl}/events?token=${encodeURIComponent(data.token)}`, { signal: controller.signal });
+        controller.abort();
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get('content-type') || '', /^text\/event-stream/);
+    });
+
+    it('mantém secret e headers do destino quando o PUT os omite', async () => {
+        const url = process.env.WEBHOOK_URL;
+        await request('PUT', '/destinations/crm', { url, secret: 's3gredo', headers: { Authorization: 'Bearer x' } });
+
+        const updated = (await (await request('PUT', '/destinations/crm', { url, timeout: 5000 })).json()).data;
+        assert.equal(updated.signed, true);
+        assert.deepEqual(updated.headers, { Authorization: '***' });
+
+        const cleared = (await (await request('PUT', '/destinations/crm', { url, secret: null, headers: null })).json()).data;
+        assert.equal(cleared.signed, false);
+        assert.equal(cleared.headers, undefined);
+
+        await request('DELETE', '/destinations/crm');
+    });
+
+    it('neutraliza fórmulas de planilha no export CSV', async () => {
+        await request('POST', '/webhook', { id: 'u1', message: '=HYPERLINK("http://x")' });
+
+        const csv = await (await request('GET', '/history/export?type=received&format=csv')).text();
+        const [, row] = csv.trim().split('\n');
+        assert.equal(row.split(',')[4], `"'=HYPERLINK(""http://x"")"`);
+    });
+
+    it('fila cheia responde 429 com Retry-After', async () => {
+        await request('PUT', '/policies/u9', { maxQueueMessages: 1 });
+        await request('POST', '/webhook', { id: 'u9', message: 'a' });
+        const response = await request('POST', '/webhook', { id: 'u9', message: 'b' });
+
+        assert.equal(response.status, 429);
+        assert.equal(response.headers.get('retry-after'), '1');
+        await request('DELETE', '/policies/u9');
+    });
+
+    it('devolve o challenge do WhatsApp como texto puro', async () => {
+        process.env.WHATSAPP_VERIFY_TOKEN = 'verificar';
+        const params = new URLSearchParams({ 'hub.mode': 'subscribe', 'hub.verify_token': 'verificar', 'hub.challenge': '<script>x</script>' });
+        const response = await fetch(`${baseUrl}/webhook/whatsapp?${params}`);
+        delete process.env.WHATSAPP_VERIFY_TOKEN;
+
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get('content-type') || '', /^text\/plain/);
+    });
+
+    it('recusa payloads inválidos', async () => {
+        const response = await request('POST', '/webhook', { id: 'u1' });
+        assert.equal(response.status, 422);
+    });
+});